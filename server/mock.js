@@ -0,0 +1,96 @@
+/**
+ * 离线模拟 Realtime 服务器
+ * 与代理服务器使用相同的端口和握手（proxy.connected），前端无需修改即可在无 API Key 的情况下运行
+ * 模拟逻辑与浏览器内模拟后端共用 src/mock/mockBackend.ts（启动前由 tsc 编译到 server/mock-dist）
+ *
+ * 启动方式: npm run mock-server -- --scenario basic
+ *          --scenario 可以是内置场景名（src/mock/scenarios/<name>.json）或场景文件路径
+ */
+
+const WebSocket = require('ws');
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const { MockRealtimeBackend } = require('./mock-dist/mock/mockBackend');
+
+const SCENARIO_DIR = path.join(__dirname, '../src/mock/scenarios');
+
+/**
+ * 读取命令行参数 --name value
+ * @param {string} name
+ * @returns {string | undefined}
+ */
+function getArg(name) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+/**
+ * 按名称或路径加载场景文件
+ * @param {string} nameOrPath
+ */
+function loadScenario(nameOrPath) {
+  const file = fs.existsSync(nameOrPath)
+    ? nameOrPath
+    : path.join(SCENARIO_DIR, `${nameOrPath}.json`);
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+const PORT = getArg('port') || process.env.PROXY_PORT || 8080;
+const scenario = loadScenario(getArg('scenario') || 'basic');
+
+const server = http.createServer((req, res) => {
+  // 健康检查端点
+  if (req.url === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'ok', mock: true, scenario: scenario.name }));
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+const wss = new WebSocket.Server({ server });
+
+wss.on('connection', (clientWs) => {
+  console.log('📥 新客户端连接（模拟）');
+
+  // 每个连接使用独立的后端实例，从场景第一轮开始
+  const backend = new MockRealtimeBackend(scenario, {
+    send: (event) => {
+      if (clientWs.readyState === WebSocket.OPEN) {
+        clientWs.send(JSON.stringify(event));
+      }
+    },
+    close: (code, reason) => clientWs.close(code, reason),
+  });
+  backend.start();
+
+  clientWs.on('message', (data) => {
+    backend.handleMessage(data.toString());
+  });
+
+  clientWs.on('close', (code) => {
+    console.log('📤 客户端断开连接:', code);
+    backend.stop();
+  });
+
+  clientWs.on('error', (error) => {
+    console.error('❌ 客户端 WebSocket 错误:', error.message);
+    backend.stop();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 模拟 Realtime 服务器已启动: ws://localhost:${PORT}，场景: ${scenario.name}`);
+});
+
+// 优雅关闭
+process.on('SIGINT', () => {
+  console.log('\n🛑 正在关闭模拟服务器...');
+  wss.clients.forEach((client) => {
+    client.close();
+  });
+  server.close(() => process.exit(0));
+});
@@ -9,6 +9,20 @@ const WebSocket = require('ws');
 const http = require('http');
 const url = require('url');
 
+// 与前端共用的事件协议类型（src/services/realtimeEvents.ts）
+/** @typedef {import('../src/services/realtimeEvents').ServerEvent} ServerEvent */
+
+/**
+ * 向客户端发送代理自身产生的事件
+ * @param {WebSocket} ws
+ * @param {ServerEvent} event
+ */
+function sendEvent(ws, event) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(event));
+  }
+}
+
 const PORT = process.env.PROXY_PORT || 8080;
 const MINIMAX_WS_URL = 'wss://api.minimaxi.com/ws/v1/realtime';
 
@@ -59,10 +73,10 @@ wss.on('connection', (clientWs, req) => {
     isConnected = true;
 
     // 通知客户端连接成功
-    clientWs.send(JSON.stringify({
+    sendEvent(clientWs, {
       type: 'proxy.connected',
       message: 'Connected to MiniMax Realtime API',
-    }));
+    });
   });
 
   minimaxWs.on('message', (data) => {
@@ -74,15 +88,13 @@ wss.on('connection', (clientWs, req) => {
 
   minimaxWs.on('error', (error) => {
     console.error('❌ MiniMax WebSocket 错误:', error.message);
-    if (clientWs.readyState === WebSocket.OPEN) {
-      clientWs.send(JSON.stringify({
-        type: 'error',
-        error: {
-          type: 'proxy_error',
-          message: `MiniMax connection error: ${error.message}`,
-        },
-      }));
-    }
+    sendEvent(clientWs, {
+      type: 'error',
+      error: {
+        type: 'proxy_error',
+        message: `MiniMax connection error: ${error.message}`,
+      },
+    });
   });
 
   minimaxWs.on('close', (code, reason) => {
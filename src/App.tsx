@@ -1,9 +1,35 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Message, VOICE_OPTIONS, ConnectionStatus } from './types';
-import { RealtimeService } from './services/realtimeService';
-import { AudioProcessor } from './services/audioProcessor';
+import { Message, VOICE_OPTIONS, RESPONSE_MODE_OPTIONS, ConnectionStatus, ResponseMode, getResponseModalities } from './types';
+import { BackpressureState, RealtimeService, ToolCall, TurnDetectionMode } from './services/realtimeService';
+import {
+  AudioInputDevice,
+  AudioOutputDevice,
+  AudioProcessor,
+  CaptureMode,
+  CaptureStats,
+  DEFAULT_AUDIO_PROCESSOR_OPTIONS,
+  DEFAULT_MICROPHONE_SETTINGS,
+  DEFAULT_OUTPUT_SETTINGS,
+  MicrophoneSettings,
+  OutputSettings,
+} from './services/audioProcessor';
+import { DEFAULT_VAD_CONFIG, VAD_ENGINE_OPTIONS, VADConfig, VADEngineType, VADLevels, toDisplayVolume } from './services/vad';
+import { LATENCY_METRICS, LatencyTracker, LatencyTurn, getTurnMetric } from './services/latencyTracker';
+import { BudgetLevel, UsageBudget, UsageSnapshot, UsageTracker, parsePriceTable } from './services/usageTracker';
+import { BUILTIN_TOOLS } from './tools';
+import { MOCK_SCENARIOS, getMockScenario } from './mock/scenarios';
+import { createMockTransport } from './mock/mockTransport';
+import { EventRecorder, Recording, parseRecording } from './services/eventRecorder';
+import { createReplayTransport } from './services/replayTransport';
+import type { TransportFactory } from './services/transport';
+import { CaptionTrack, splitCaptionWords } from './services/captionTrack';
+import { getPcm16DurationMs } from './services/realtimeEvents';
+import { LOG_LEVELS, LOG_NAMESPACES, LogEntry, LogLevel, LogLevelConfig, LogNamespace, createLogger, logManager } from './services/logger';
 import './App.css';
 
+const log = createLogger('realtime');
+const audioLog = createLogger('audio');
+
 // 默认系统提示词
 const DEFAULT_SYSTEM_PROMPT = `你是一位友善、专业的英语学习辅助助手，致力于帮助用户提升英语表达能力。你的核心职责包括：
 
@@ -32,6 +58,40 @@ const DEFAULT_SYSTEM_PROMPT = `你是一位友善、专业的英语学习辅助
 
 记住：你的目标是让学习过程轻松愉快，在纠正错误的同时保护用户的学习热情。`;
 
+// 回放倍速
+const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+// 助手语音播放倍速（保持音高）
+const PLAYBACK_RATES = [0.5, 0.75, 0.9, 1, 1.25, 1.5, 2];
+
+// 调试面板最多显示的日志条数
+const MAX_VISIBLE_LOGS = 300;
+
+/**
+ * 日志附加数据的单行预览
+ */
+function formatLogData(data: unknown[] | undefined): string {
+  if (!data) return '';
+  const text = data.map((item) => (typeof item === 'string' ? item : JSON.stringify(item))).join(' ');
+  return text.length > 300 ? `${text.slice(0, 300)}…` : text;
+}
+
+/**
+ * 下载文本文件
+ */
+function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function getTimestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
 const App: React.FC = () => {
   // ==================== 状态 ====================
   const [messages, setMessages] = useState<Message[]>([]);
@@ -40,36 +100,132 @@ const App: React.FC = () => {
   const [isListening, setIsListening] = useState(false);  // 正在监听用户说话
   const [isResponding, setIsResponding] = useState(false);
   const [streamingText, setStreamingText] = useState('');
+  const [caption, setCaption] = useState<{ text: string; spokenLength: number } | null>(null);  // 正在播放的回复的字幕及已说出的字数
   const [error, setError] = useState<string | null>(null);
   const [selectedVoice, setSelectedVoice] = useState('male-qn-qingse');
-  const [volume, setVolume] = useState(0);  // 麦克风音量
+  const [responseMode, setResponseMode] = useState<ResponseMode>('normal');  // 回复模式
+  const [vadConfig, setVadConfig] = useState<VADConfig>(DEFAULT_VAD_CONFIG);  // 本地 VAD 参数
+  const [vadEngine, setVadEngine] = useState<VADEngineType>('rms');  // 本地 VAD 引擎
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('continuous');  // 麦克风上传方式
+  const [preRollMs, setPreRollMs] = useState(DEFAULT_AUDIO_PROCESSOR_OPTIONS.preRollMs);
+  const [captureStats, setCaptureStats] = useState<CaptureStats | null>(null);  // 按说话上传的节省统计
+  const [micSettings, setMicSettings] = useState<MicrophoneSettings>(DEFAULT_MICROPHONE_SETTINGS);  // 麦克风设备与处理开关
+  const [inputDevices, setInputDevices] = useState<AudioInputDevice[]>([]);
+  const [activeInput, setActiveInput] = useState<{ device: AudioInputDevice | null; isFallback: boolean } | null>(null);  // 实际使用的麦克风
+  const [outputSettings, setOutputSettings] = useState<OutputSettings>(DEFAULT_OUTPUT_SETTINGS);  // 播放音量、倍速和输出设备
+  const [outputDevices, setOutputDevices] = useState<AudioOutputDevice[]>([]);
+  const [vadLevels, setVadLevels] = useState<VADLevels | null>(null);  // 本地 VAD 当前阈值与噪声底
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);  // 当前重连次数
+  const [backpressure, setBackpressure] = useState<BackpressureState | null>(null);  // 出站拥塞状态
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);  // 检测到用户正在说话
+  const [usage, setUsage] = useState<UsageSnapshot | null>(null);  // 用量与费用
+  const [latencyTurns, setLatencyTurns] = useState<LatencyTurn[]>([]);  // 各轮延迟打点
 
   // 配置状态
   const [apiKey, setApiKey] = useState(process.env.REACT_APP_API_KEY || '');
   const [systemPrompt, setSystemPrompt] = useState(DEFAULT_SYSTEM_PROMPT);
   const [showSettings, setShowSettings] = useState(false);  // 设置面板显示
+  const [showMetrics, setShowMetrics] = useState(false);  // 延迟面板显示
+  const [showDebug, setShowDebug] = useState(false);  // 调试日志面板显示
+  const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
+  const [logLevels, setLogLevels] = useState<LogLevelConfig>(() => logManager.getLevels());  // 各命名空间的输出级别
+  const [logFilter, setLogFilter] = useState<{ level: LogLevel; namespace: LogNamespace | 'all'; text: string }>({
+    level: 'debug',
+    namespace: 'all',
+    text: '',
+  });
+  const [turnDetection, setTurnDetection] = useState<TurnDetectionMode>('client');  // 轮次检测模式
+  const [isRecording, setIsRecording] = useState(false);  // 正在录制事件
+  const [recordAudio, setRecordAudio] = useState(false);  // 录制时保存音频数据
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [replay, setReplay] = useState<{ name: string; recording: Recording } | null>(null);  // 已加载的录制文件
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayProgress, setReplayProgress] = useState<{ played: number; total: number } | null>(null);
+  const [mockScenario, setMockScenario] = useState(process.env.REACT_APP_MOCK_SCENARIO || '');  // 模拟场景，空表示连接真实 API
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);  // 正在编辑的消息
+  const [editingText, setEditingText] = useState('');
+  const [composerText, setComposerText] = useState('');  // 文本输入框内容
+  const [softBudget, setSoftBudget] = useState('');  // 费用提醒额度
+  const [hardBudget, setHardBudget] = useState('');  // 费用上限
+  const [budgetScope, setBudgetScope] = useState<UsageBudget['scope']>('day');
 
   // ==================== Refs ====================
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const realtimeRef = useRef<RealtimeService | null>(null);
   const audioProcessorRef = useRef<AudioProcessor | null>(null);
+  const usageTrackerRef = useRef<UsageTracker | null>(null);
+  const latencyTrackerRef = useRef<LatencyTracker | null>(null);
+  const recorderRef = useRef(new EventRecorder());
   const streamingTextRef = useRef('');
-  const isInterruptedRef = useRef(false);  // 打断标志，用于忽略后续音频数据
+  const activeResponseIdRef = useRef<string | null>(null);  // 当前响应 ID，用于区分新旧响应的回调
+  const audioItemIdsRef = useRef(new Set<string>());  // 收到过音频的助手回复
+  const audioResponseIdsRef = useRef(new Set<string>());  // 播放过音频的响应，播放结束后才算完成
+  const pendingTextsRef = useRef<{ responseId: string; itemId: string; text: string }[]>([]);  // 有语音时等待播放完成的文字
+  const awaitingPlaybackRef = useRef(new Set<string>());  // 音频已接收完、等待播放结束的响应
+  const captionTrackRef = useRef<CaptionTrack | null>(null);
+  const captionPlayedMsRef = useRef(0);
+  const responseModeRef = useRef<ResponseMode>('normal');
+  responseModeRef.current = responseMode;
+  const congestedRef = useRef(false);  // 出站缓冲拥塞时暂停上传麦克风音频
+  const isTypingRef = useRef(false);  // 输入框有内容时暂停语音提交
+  isTypingRef.current = composerText.trim().length > 0;
   const isConversationModeRef = useRef(false);  // 对话模式 ref（用于回调中访问最新状态）
   const hasSpeechRef = useRef(false);  // 本轮是否有说话
+  const turnDetectionRef = useRef<TurnDetectionMode>('client');  // 当前连接使用的轮次检测模式
+  const volumeFillRef = useRef<HTMLDivElement>(null);  // 设置面板里的麦克风音量条
+  const voiceButtonRef = useRef<HTMLButtonElement>(null);
+  const speechVolumeRef = useRef(1);  // 说话阈值对应的显示音量
 
   // ==================== 辅助函数 ====================
-  const addMessage = useCallback((role: 'user' | 'assistant', content: string, isAudio = false) => {
+  // 麦克风音量每个采集帧都会更新，直接写到音量条和语音按钮上，不经过 state，避免整个 App 跟着重新渲染
+  // vol 为 null 表示停止收音
+  const showVolume = useCallback((vol: number | null) => {
+    const fill = volumeFillRef.current;
+    if (fill) {
+      fill.style.width = `${(vol ?? 0) * 100}%`;
+      fill.classList.toggle('speech', vol !== null && vol >= speechVolumeRef.current);
+    }
+    const button = voiceButtonRef.current;
+    if (button) {
+      button.style.boxShadow = vol === null ? '' : `0 0 ${10 + vol * 30}px rgba(59, 130, 246, ${0.5 + vol * 0.5})`;
+    }
+  }, []);
+
+  const addMessage = useCallback((role: 'user' | 'assistant', content: string, isAudio = false, itemId?: string) => {
     const message: Message = {
       id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
       role,
       content,
       timestamp: new Date(),
       isAudio,
+      itemId,
     };
     setMessages((prev) => [...prev, message]);
   }, []);
 
+  // 工具调用消息：按 callId 新增或更新
+  const upsertToolMessage = useCallback((call: ToolCall) => {
+    setMessages((prev) => {
+      const index = prev.findIndex((m) => m.toolCall?.callId === call.callId);
+      if (index === -1) {
+        return [
+          ...prev,
+          {
+            id: `tool-${call.callId}`,
+            role: 'tool',
+            content: call.name,
+            timestamp: new Date(),
+            toolCall: call,
+            itemId: call.itemId,
+          },
+        ];
+      }
+      const next = [...prev];
+      next[index] = { ...next[index], toolCall: call };
+      return next;
+    });
+  }, []);
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -81,11 +237,18 @@ const App: React.FC = () => {
     try {
       hasSpeechRef.current = false;
       audioProcessorRef.current.resetVADState();
+      setCaptureStats(null);
       await audioProcessorRef.current.startCapture((base64) => {
+        // 正在输入文字时不上传麦克风音频（服务端 VAD 也不会据此提交）
+        if (isTypingRef.current) return;
+        // 出站拥塞时暂停上传，避免排队的音频超出预算后丢弃说话开头
+        if (congestedRef.current) return;
         realtimeRef.current?.appendAudio(base64);
       });
       setIsListening(true);
-      console.log('👂 开始监听...');
+      // 授权后才能拿到设备名称
+      audioProcessorRef.current.listInputDevices().then(setInputDevices).catch(() => {});
+      audioLog.info('👂 开始监听...');
     } catch (err: any) {
       setError(err.message);
     }
@@ -100,19 +263,38 @@ const App: React.FC = () => {
     if (!audioProcessorRef.current) return;
     audioProcessorRef.current.stopCapture();
     setIsListening(false);
-    setVolume(0);
-    console.log('🔇 停止监听');
-  }, []);
+    setActiveInput(null);
+    setIsUserSpeaking(false);
+    showVolume(null);
+    audioLog.info('🔇 停止监听');
+  }, [showVolume]);
+
+  // 处理用户说话结束（本地 VAD 静音超时或服务端 speech_stopped）- 使用 ref 存储
+  const handleSpeechEndRef = useRef((source: TurnDetectionMode) => {});
+  handleSpeechEndRef.current = (source) => {
+    // 只响应当前轮次检测模式的事件
+    if (source !== turnDetectionRef.current) return;
+    setIsUserSpeaking(false);
 
-  // 处理用户说话结束（VAD 检测到静音）- 使用 ref 存储
-  const handleSpeechEndRef = useRef(() => {});
-  handleSpeechEndRef.current = () => {
     if (!isConversationModeRef.current || !hasSpeechRef.current) return;
 
+    // 正在输入文字时不提交语音（键盘声也可能被识别为说话）
+    if (isTypingRef.current) {
+      hasSpeechRef.current = false;
+      audioProcessorRef.current?.resetVADState();
+      return;
+    }
+
+    // 服务端 VAD 会自动提交音频并触发响应
+    if (source === 'server') {
+      hasSpeechRef.current = false;
+      return;
+    }
+
     // 如果 AI 正在说话，不处理静音结束（等待用户继续说话或打断完成）
     if (isRespondingRef.current) return;
 
-    console.log('📤 静音超时，提交音频并触发响应');
+    log.info('📤 静音超时，提交音频并触发响应');
     // 不停止监听！保持麦克风开启以便检测打断
     // stopListening();
 
@@ -131,18 +313,33 @@ const App: React.FC = () => {
   const isListeningRef = useRef(false);
   isListeningRef.current = isListening;
 
-  const handleSpeechStartRef = useRef(() => {});
-  handleSpeechStartRef.current = () => {
+  // 停止 AI 播放，并按实际播放进度截断服务端历史
+  const stopAssistantPlayback = () => {
+    const position = audioProcessorRef.current?.getPlaybackPosition();
+    audioProcessorRef.current?.stopPlayback();
+    realtimeRef.current?.interrupt(position);
+    activeResponseIdRef.current = null;
+    // 未播完的文字由 onItemTruncated 按实际听到的部分补上
+    pendingTextsRef.current = [];
+    awaitingPlaybackRef.current.clear();
+    captionTrackRef.current = null;
+    setCaption(null);
+  };
+
+  const handleSpeechStartRef = useRef((source: TurnDetectionMode) => {});
+  handleSpeechStartRef.current = (source) => {
+    if (source !== turnDetectionRef.current) return;
+    setIsUserSpeaking(true);
     hasSpeechRef.current = true;
 
-    // 如果 AI 正在说话，自动打断
-    if (isRespondingRef.current) {
-      console.log('🛑 用户开始说话，自动打断 AI');
-      isInterruptedRef.current = true;
-      audioProcessorRef.current?.stopPlayback();
-      realtimeRef.current?.interrupt();
-      // 清空之前的音频缓冲区，重新开始
-      realtimeRef.current?.clearAudioBuffer();
+    // 如果 AI 正在说话，自动打断（正在输入文字时忽略，避免键盘声误触发）
+    if (isRespondingRef.current && !isTypingRef.current) {
+      log.info('🛑 用户开始说话，自动打断 AI');
+      stopAssistantPlayback();
+      // 清空之前的音频缓冲区，重新开始（服务端 VAD 模式下缓冲区由服务端管理）
+      if (source === 'client') {
+        realtimeRef.current?.clearAudioBuffer();
+      }
       setIsResponding(false);
       setStreamingText('');
       streamingTextRef.current = '';
@@ -172,26 +369,88 @@ const App: React.FC = () => {
 
     // 设置 VAD 回调
     audioProcessorRef.current.setVADCallbacks({
-      onSpeechStart: () => handleSpeechStartRef.current(),
-      onSpeechEnd: () => handleSpeechEndRef.current(),
-      onVolumeChange: (vol) => setVolume(vol),
+      onSpeechStart: () => handleSpeechStartRef.current('client'),
+      onSpeechEnd: () => handleSpeechEndRef.current('client'),
+      onVolumeChange: showVolume,
+      onLevelsChange: (levels) => setVadLevels(levels),
     });
 
     // 设置 Realtime 回调
     setupRealtimeCallbacks();
 
-    console.log('✅ 服务已初始化');
-  }, []);
+    log.info('✅ 服务已初始化');
+  }, [showVolume]);
 
   // 设置 Realtime 回调
   const setupRealtimeCallbacks = useCallback(() => {
     if (!realtimeRef.current) return;
 
+    // 响应结束：显示等待播放完成的文字，对话模式下继续监听
+    const finishResponse = (responseId: string) => {
+      // 连同其他已不在进行、也不在等待播放的响应遗留的文字一起显示
+      const isSettled = (entry: { responseId: string }) => entry.responseId === responseId
+        || (entry.responseId !== activeResponseIdRef.current && !awaitingPlaybackRef.current.has(entry.responseId));
+      const pending = pendingTextsRef.current.filter(isSettled);
+      pendingTextsRef.current = pendingTextsRef.current.filter((entry) => !isSettled(entry));
+      pending.forEach((entry) => addMessage('assistant', entry.text, audioItemIdsRef.current.has(entry.itemId), entry.itemId));
+
+      // 已开始新的响应时，不改变响应状态
+      if (activeResponseIdRef.current !== responseId) return;
+      activeResponseIdRef.current = null;
+      setIsResponding(false);
+      setStreamingText('');
+      streamingTextRef.current = '';
+      captionTrackRef.current = null;
+      setCaption(null);
+
+      if (isConversationModeRef.current) {
+        audioLog.info('🔄 AI 说完，继续监听...');
+        hasSpeechRef.current = false;
+        audioProcessorRef.current?.resetVADState();
+        if (!isListeningRef.current) {
+          startListeningRef.current();
+        }
+      }
+    };
+
+    // 字幕：转写文字按到达时已收到的音频对齐，播放进度更新时刷新已说出的字数
+    const getCaptionTrack = (itemId: string) => {
+      if (captionTrackRef.current?.itemId !== itemId) {
+        captionTrackRef.current = new CaptionTrack(itemId);
+        captionPlayedMsRef.current = 0;
+      }
+      return captionTrackRef.current;
+    };
+
+    const refreshCaption = () => {
+      const track = captionTrackRef.current;
+      if (!track || !track.getText()) return;
+      setCaption({ text: track.getText(), spokenLength: track.getSpokenLength(captionPlayedMsRef.current) });
+    };
+
+    audioProcessorRef.current?.setPlaybackCallbacks({
+      onProgress: ({ itemId, playedMs }) => {
+        if (captionTrackRef.current?.itemId !== itemId) return;
+        captionPlayedMsRef.current = playedMs;
+        refreshCaption();
+      },
+      onEnded: () => {
+        // 播放中途断流也会触发，只结束音频已接收完的响应
+        if (awaitingPlaybackRef.current.size === 0) return;
+        audioLog.info('🔊 AI 音频播放完成');
+        const responseIds = Array.from(awaitingPlaybackRef.current);
+        awaitingPlaybackRef.current.clear();
+        responseIds.forEach(finishResponse);
+      },
+    });
+
     realtimeRef.current.setCallbacks({
       onConnected: () => {
+        congestedRef.current = false;
         setConnectionStatus('connected');
+        setReconnectAttempt(0);
         setError(null);
-        console.log('✅ 已连接到 Realtime API');
+        log.info('✅ 已连接到 Realtime API');
       },
 
       onDisconnected: () => {
@@ -199,103 +458,243 @@ const App: React.FC = () => {
         isConversationModeRef.current = false;
         setIsConversationMode(false);
         setIsListening(false);
+        showVolume(null);
+        setIsResponding(false);
+        setIsUserSpeaking(false);
+        setReconnectAttempt(0);
+      },
+
+      onReconnecting: (attempt) => {
+        // 保留对话模式和消息，连接恢复后服务端会回放历史
+        setConnectionStatus('reconnecting');
+        setReconnectAttempt(attempt);
         setIsResponding(false);
+        audioProcessorRef.current?.stopPlayback();
+      },
+
+      onSpeechStarted: () => handleSpeechStartRef.current('server'),
+
+      onSpeechStopped: () => handleSpeechEndRef.current('server'),
+
+      onUserTranscript: (transcript, itemId) => {
+        log.info('🎤 用户语音:', transcript);
+        addMessage('user', transcript, true, itemId);
       },
 
-      onUserTranscript: (transcript) => {
-        console.log('🎤 用户语音:', transcript);
-        addMessage('user', transcript, true);
+      onConversationChange: (items) => {
+        // 服务端已删除的对话项同步移出消息列表
+        const ids = new Set(items.map((item) => item.id));
+        setMessages((prev) => {
+          const next = prev.filter((m) => !m.itemId || ids.has(m.itemId));
+          return next.length === prev.length ? prev : next;
+        });
       },
 
-      onResponseStart: () => {
-        isInterruptedRef.current = false;
+      onItemIdChanged: (oldId, newId) => {
+        setMessages((prev) => prev.map((m) => (m.itemId === oldId ? { ...m, itemId: newId } : m)));
+      },
+
+      onItemTruncated: ({ itemId, text }) => {
+        // 被打断的回复只显示用户实际听到的部分
+        setMessages((prev) => {
+          const index = prev.findIndex((m) => m.itemId === itemId);
+          if (index !== -1) {
+            const next = [...prev];
+            next[index] = { ...next[index], content: text, truncated: true };
+            return next;
+          }
+          if (!text) return prev;
+          return [
+            ...prev,
+            {
+              id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+              role: 'assistant',
+              content: text,
+              timestamp: new Date(),
+              itemId,
+              truncated: true,
+            },
+          ];
+        });
+      },
+
+      onResponseStart: (responseId) => {
+        activeResponseIdRef.current = responseId;
         setIsResponding(true);
         setStreamingText('');
         streamingTextRef.current = '';
+        captionTrackRef.current = null;
+        setCaption(null);
       },
 
       onTextDelta: (delta) => {
-        if (isInterruptedRef.current) return;
         setIsResponding(true);
+        // 语音优先模式下不显示流式文字
+        if (responseModeRef.current === 'audio_first') return;
         streamingTextRef.current += delta;
         setStreamingText(streamingTextRef.current);
       },
 
-      onTextDone: (text) => {
-        if (isInterruptedRef.current) return;
-        addMessage('assistant', text);
-        setStreamingText('');
-        streamingTextRef.current = '';
+      onTextDone: (text, ref) => {
+        if (responseModeRef.current === 'silent') {
+          setStreamingText('');
+          streamingTextRef.current = '';
+          addMessage('assistant', text, audioItemIdsRef.current.has(ref.itemId), ref.itemId);
+          return;
+        }
+        // 响应已经结束（文字晚于播放完成到达）时直接显示
+        if (activeResponseIdRef.current !== ref.responseId) {
+          addMessage('assistant', text, audioItemIdsRef.current.has(ref.itemId), ref.itemId);
+          return;
+        }
+        // 语音播放完成后再加入消息列表，期间流式气泡按播放进度显示字幕
+        pendingTextsRef.current.push({ responseId: ref.responseId, itemId: ref.itemId, text });
       },
 
-      onAudioDelta: (audioBase64) => {
-        if (isInterruptedRef.current) return;
+      onAudioTranscriptDelta: (delta, ref) => {
+        if (responseModeRef.current === 'silent') return;
+        getCaptionTrack(ref.itemId).addText(delta);
+        refreshCaption();
+      },
+
+      onAudioDelta: (audioBase64, ref) => {
+        // 静音模式下忽略切换前已在生成的语音
+        if (responseModeRef.current === 'silent') return;
+        audioResponseIdsRef.current.add(ref.responseId);
+        // 文本先于音频完成时，补充标记为语音回复
+        if (!audioItemIdsRef.current.has(ref.itemId)) {
+          audioItemIdsRef.current.add(ref.itemId);
+          setMessages((prev) => prev.map((msg) => (
+            msg.itemId === ref.itemId && !msg.isAudio ? { ...msg, isAudio: true } : msg
+          )));
+        }
         setIsResponding(true);
-        audioProcessorRef.current?.playAudioChunk(audioBase64);
+        getCaptionTrack(ref.itemId).addAudio(getPcm16DurationMs(audioBase64));
+        audioProcessorRef.current?.playAudioChunk(audioBase64, ref.itemId);
       },
 
-      onAudioDone: () => {
-        console.log('🔊 AI 音频流接收完成');
-        const checkPlaybackDone = () => {
-          if (!audioProcessorRef.current?.isCurrentlyPlaying()) {
-            console.log('🔊 AI 音频播放完成');
-            if (!isInterruptedRef.current) {
-              setIsResponding(false);
-            }
-            isInterruptedRef.current = false;
-
-            if (isConversationModeRef.current) {
-              console.log('🔄 AI 说完，继续监听...');
-              hasSpeechRef.current = false;
-              audioProcessorRef.current?.resetVADState();
-              if (!isListeningRef.current) {
-                startListeningRef.current();
-              }
-            }
-          } else {
-            setTimeout(checkPlaybackDone, 200);
-          }
-        };
-        setTimeout(checkPlaybackDone, 200);
+      onAudioDone: (ref) => {
+        audioLog.info('🔊 AI 音频流接收完成');
+        // 未播放语音（静音模式）时由 onResponseDone 结束响应
+        if (!audioResponseIdsRef.current.has(ref.responseId)) return;
+        if (captionTrackRef.current?.itemId === ref.itemId) {
+          captionTrackRef.current.finish();
+        }
+        // 变速播放时输出缓冲中剩余的音频
+        audioProcessorRef.current?.flushPlayback();
+        // 已经播完时直接结束，否则等 onEnded
+        if (!audioProcessorRef.current?.isCurrentlyPlaying()) {
+          audioLog.info('🔊 AI 音频播放完成');
+          finishResponse(ref.responseId);
+          return;
+        }
+        awaitingPlaybackRef.current.add(ref.responseId);
       },
 
-      onResponseDone: (usage) => {
-        if (usage) {
-          console.log('📊 Token 使用:', usage);
+      onResponseDone: (usage, responseId) => {
+        // 有语音的响应在播放结束后才算完成
+        if (!audioResponseIdsRef.current.delete(responseId)) {
+          finishResponse(responseId);
         }
       },
 
+      onBackpressure: (state) => {
+        if (state.active !== congestedRef.current) {
+          log.info(state.active ? '🐢 网络拥塞，暂停上传麦克风音频' : '🚀 网络恢复，继续上传麦克风音频');
+          congestedRef.current = state.active;
+        }
+        // 只在拥塞或有排队事件时显示
+        const congested = state.active || state.queuedEvents > 0;
+        setBackpressure(congested ? state : null);
+      },
+
+      onToolCallStart: (call) => upsertToolMessage(call),
+
+      onToolCallDone: (call) => upsertToolMessage(call),
+
       onError: (err) => {
         setError(`API 错误: ${err.message}`);
         setIsResponding(false);
       },
     });
-  }, [addMessage]);
+  }, [addMessage, upsertToolMessage, showVolume]);
 
   // 初始化 effect
   useEffect(() => {
     const defaultVoice = process.env.REACT_APP_DEFAULT_VOICE || 'male-qn-qingse';
     setSelectedVoice(defaultVoice);
 
+    // 延迟统计
+    latencyTrackerRef.current = new LatencyTracker();
+    latencyTrackerRef.current.setCallbacks({
+      onUpdate: (turns) => setLatencyTurns(turns),
+    });
+
     // 只初始化 AudioProcessor
-    audioProcessorRef.current = new AudioProcessor();
+    const frameMs = Number(process.env.REACT_APP_AUDIO_FRAME_MS);
+    audioProcessorRef.current = new AudioProcessor(frameMs > 0 ? { frameMs } : {});
+    audioProcessorRef.current.setLatencyTracker(latencyTrackerRef.current);
     audioProcessorRef.current.setVADCallbacks({
-      onSpeechStart: () => handleSpeechStartRef.current(),
-      onSpeechEnd: () => handleSpeechEndRef.current(),
-      onVolumeChange: (vol) => setVolume(vol),
+      onSpeechStart: () => handleSpeechStartRef.current('client'),
+      onSpeechEnd: () => handleSpeechEndRef.current('client'),
+      onVolumeChange: showVolume,
+      onLevelsChange: (levels) => setVadLevels(levels),
     });
+    audioProcessorRef.current.setCaptureCallbacks({
+      onStatsChange: (stats) => setCaptureStats(stats),
+      onDevicesChange: (devices) => setInputDevices(devices),
+      onInputChange: (device, isFallback) => setActiveInput({ device, isFallback }),
+      onCaptureError: (message) => setError(message),
+    });
+    setMicSettings(audioProcessorRef.current.getMicrophoneSettings());
+    audioProcessorRef.current.listOutputDevices().then(setOutputDevices).catch(() => {});
+
+    usageTrackerRef.current = new UsageTracker({
+      prices: parsePriceTable(process.env.REACT_APP_USAGE_PRICES),
+    });
+    usageTrackerRef.current.setCallbacks({
+      onUpdate: (snapshot) => setUsage(snapshot),
+      onBudgetExceeded: (level) => handleBudgetExceededRef.current(level),
+    });
+    setUsage(usageTrackerRef.current.getSnapshot());
 
     return () => {
       realtimeRef.current?.disconnect();
       audioProcessorRef.current?.destroy();
     };
-  }, []);
+  }, [showVolume]);
+
+  // 同步费用预算
+  useEffect(() => {
+    const parseBudget = (value: string) => {
+      const amount = parseFloat(value);
+      return amount > 0 ? amount : undefined;
+    };
+    usageTrackerRef.current?.setBudget({
+      scope: budgetScope,
+      softLimit: parseBudget(softBudget),
+      hardLimit: parseBudget(hardBudget),
+    });
+  }, [softBudget, hardBudget, budgetScope]);
 
   // 自动滚动到底部
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, streamingText]);
 
+  // 设置面板打开时刷新麦克风列表
+  useEffect(() => {
+    if (!showSettings) return;
+    audioProcessorRef.current?.listInputDevices().then(setInputDevices).catch(() => {});
+  }, [showSettings]);
+
+  // 调试面板打开时订阅日志
+  useEffect(() => {
+    if (!showDebug) return;
+    setLogEntries(logManager.getEntries());
+    return logManager.subscribe(setLogEntries);
+  }, [showDebug]);
+
   // 自动清除错误
   useEffect(() => {
     if (error) {
@@ -305,14 +704,27 @@ const App: React.FC = () => {
   }, [error]);
 
   // ==================== 连接控制 ====================
-  const handleConnect = async () => {
-    if (connectionStatus === 'connecting') return;
-
-    // 验证 API Key
-    if (!apiKey.trim()) {
+  /**
+   * @param transportOverride 指定传输（如回放），默认按设置连接真实 API 或离线模拟
+   * @returns 连接是否已建立（connect() 在连接就绪后才返回）
+   */
+  const handleConnect = async (transportOverride?: TransportFactory): Promise<boolean> => {
+    if (connectionStatus === 'connecting' || connectionStatus === 'reconnecting') return false;
+
+    // 验证 API Key（模拟后端和回放不需要）
+    const scenario = mockScenario ? getMockScenario(mockScenario) : undefined;
+    const transport = transportOverride || (scenario ? createMockTransport(scenario) : undefined);
+    if (!transport && !apiKey.trim()) {
       setError('请输入 API Key');
       setShowSettings(true);
-      return;
+      return false;
+    }
+
+    // 超出费用上限时禁止连接
+    if (!transport && usageTrackerRef.current && !usageTrackerRef.current.canStart()) {
+      setError('已超出费用上限，请在设置中调整预算后再连接');
+      setShowSettings(true);
+      return false;
     }
 
     setConnectionStatus('connecting');
@@ -324,13 +736,31 @@ const App: React.FC = () => {
         apiKey: apiKey.trim(),
         voice: selectedVoice,
         instructions: systemPrompt,
+        turnDetection,
+        transport,
+        modalities: getResponseModalities(responseMode),
       });
+      turnDetectionRef.current = turnDetection;
+      realtimeRef.current.setLatencyTracker(latencyTrackerRef.current);
+      realtimeRef.current.setEventRecorder(recorderRef.current);
+      // 用量统计独立订阅，离线模拟和回放不计入
+      if (!transport) {
+        realtimeRef.current.on('responseDone', (usage, responseId) => {
+          if (usage) usageTrackerRef.current?.record(responseId, usage);
+        });
+      }
+      // 服务端 VAD 模式下由 speech_stopped 事件标记说话结束
+      audioProcessorRef.current?.setLatencyTracker(latencyTrackerRef.current, turnDetection === 'client');
+      BUILTIN_TOOLS.forEach((tool) => realtimeRef.current!.registerTool(tool));
       setupRealtimeCallbacks();
+      usageTrackerRef.current?.resetConversation();
 
       await realtimeRef.current.connect();
+      return true;
     } catch (err: any) {
       setConnectionStatus('error');
       setError('连接失败: ' + err.message);
+      return false;
     }
   };
 
@@ -343,24 +773,33 @@ const App: React.FC = () => {
     realtimeRef.current?.disconnect();
     audioProcessorRef.current?.stopPlayback();
     setConnectionStatus('disconnected');
+    setReconnectAttempt(0);
     setIsResponding(false);
   };
 
+  // ==================== 费用预算 ====================
+  const handleBudgetExceededRef = useRef((level: Exclude<BudgetLevel, 'ok'>) => {});
+  handleBudgetExceededRef.current = (level) => {
+    if (level === 'soft') {
+      setError('⚠️ 已超出费用提醒额度，请注意用量');
+      return;
+    }
+    setError('⛔ 已超出费用上限，连接已断开');
+    if (realtimeRef.current?.isConnectedState() || connectionStatus === 'reconnecting') {
+      handleDisconnect();
+    }
+  };
+
   // ==================== 语音输入（对话模式切换） ====================
   const handleVoiceInput = async () => {
-    // 如果未连接，先连接
-    if (!realtimeRef.current?.isConnectedState()) {
-      await handleConnect();
-      // 等待连接完成
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      if (!realtimeRef.current?.isConnectedState()) {
-        return;
-      }
+    // 如果未连接，先连接并等待连接就绪
+    if (!realtimeRef.current?.isConnectedState() && !(await handleConnect())) {
+      return;
     }
 
     if (isConversationMode) {
       // 退出对话模式
-      console.log('🛑 退出对话模式');
+      log.info('🛑 退出对话模式');
       isConversationModeRef.current = false;
       setIsConversationMode(false);
 
@@ -372,22 +811,18 @@ const App: React.FC = () => {
 
       // 停止 AI 播放
       if (isResponding) {
-        isInterruptedRef.current = true;
-        audioProcessorRef.current?.stopPlayback();
-        realtimeRef.current?.interrupt();
+        stopAssistantPlayback();
         setIsResponding(false);
         setStreamingText('');
         streamingTextRef.current = '';
       }
     } else {
       // 进入对话模式
-      console.log('🎙️ 进入对话模式');
+      log.info('🎙️ 进入对话模式');
 
       // 如果 AI 正在说话，打断它
       if (isResponding) {
-        isInterruptedRef.current = true;
-        audioProcessorRef.current?.stopPlayback();
-        realtimeRef.current?.interrupt();
+        stopAssistantPlayback();
         setIsResponding(false);
         setStreamingText('');
         streamingTextRef.current = '';
@@ -403,14 +838,50 @@ const App: React.FC = () => {
     }
   };
 
+  // ==================== 文本输入 ====================
+  const handleSendText = async () => {
+    const text = composerText.trim();
+    if (!text) return;
+
+    // 如果未连接，先连接并等待连接就绪
+    if (!realtimeRef.current?.isConnectedState() && !(await handleConnect())) {
+      return;
+    }
+
+    // 打断正在播放的回复
+    if (isRespondingRef.current) {
+      stopAssistantPlayback();
+      setIsResponding(false);
+      setStreamingText('');
+      streamingTextRef.current = '';
+    }
+
+    // 对话模式下丢弃尚未提交的语音
+    if (isConversationModeRef.current) {
+      hasSpeechRef.current = false;
+      audioProcessorRef.current?.resetVADState();
+      if (turnDetectionRef.current === 'client') {
+        realtimeRef.current?.clearAudioBuffer();
+      }
+    }
+
+    const itemId = realtimeRef.current!.sendText(text);
+    addMessage('user', text, false, itemId);
+    setComposerText('');
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter 发送，Shift+Enter 换行；输入法组字时不发送
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSendText();
+    }
+  };
+
   // ==================== 打断 ====================
   const handleInterrupt = () => {
-    // 设置打断标志，忽略后续收到的音频和文本数据
-    isInterruptedRef.current = true;
-    // 停止本地音频播放
-    audioProcessorRef.current?.stopPlayback();
-    // 清空音频输入缓冲区
-    realtimeRef.current?.interrupt();
+    // 停止本地音频播放，放弃当前响应的后续数据，并截断服务端历史中未播放的部分
+    stopAssistantPlayback();
     // 清空流式文本显示
     setStreamingText('');
     streamingTextRef.current = '';
@@ -426,14 +897,209 @@ const App: React.FC = () => {
     }
   };
 
+  // ==================== 回复模式 ====================
+  const handleResponseModeChange = (mode: ResponseMode) => {
+    setResponseMode(mode);
+    if (connectionStatus === 'connected') {
+      realtimeRef.current?.setModalities(getResponseModalities(mode));
+    }
+    // 切到静音模式时停止正在播放的语音，文字照常显示
+    if (mode === 'silent' && audioProcessorRef.current?.isCurrentlyPlaying()) {
+      stopAssistantPlayback();
+      setIsResponding(false);
+    }
+  };
+
+  // ==================== 本地 VAD ====================
+  const handleVADConfigChange = (patch: Partial<VADConfig>) => {
+    const invalid = Object.values(patch).some((value) => typeof value === 'number' && (!Number.isFinite(value) || value < 0));
+    if (invalid) return;
+    setVadConfig((prev) => ({ ...prev, ...patch }));
+    audioProcessorRef.current?.setVADConfig(patch);
+  };
+
+  const handleVADEngineChange = (engine: VADEngineType) => {
+    setVadEngine(engine);
+    audioProcessorRef.current?.setVADEngine(engine);
+  };
+
+  const handleCaptureModeChange = (mode: CaptureMode, preRoll = preRollMs) => {
+    if (!Number.isFinite(preRoll) || preRoll < 0) return;
+    setCaptureMode(mode);
+    setPreRollMs(preRoll);
+    audioProcessorRef.current?.setCaptureMode(mode, preRoll);
+  };
+
+  const handleMicrophoneChange = (patch: Partial<MicrophoneSettings>) => {
+    setMicSettings((prev) => ({ ...prev, ...patch }));
+    audioProcessorRef.current?.setMicrophone(patch);
+  };
+
+  // ==================== 播放输出 ====================
+  const handleVolumeChange = (volume: number) => {
+    // 拖动音量时自动取消静音
+    audioProcessorRef.current?.setVolume(volume);
+    audioProcessorRef.current?.setMuted(false);
+    setOutputSettings((prev) => ({ ...prev, volume, muted: false }));
+  };
+
+  const handleToggleMute = () => {
+    audioProcessorRef.current?.setMuted(!outputSettings.muted);
+    setOutputSettings((prev) => ({ ...prev, muted: !prev.muted }));
+  };
+
+  const handlePlaybackRateChange = (playbackRate: number) => {
+    audioProcessorRef.current?.setPlaybackRate(playbackRate);
+    setOutputSettings((prev) => ({ ...prev, playbackRate }));
+  };
+
+  const handleOutputDeviceChange = async (deviceId: string | null) => {
+    const ok = await audioProcessorRef.current?.setOutputDevice(deviceId);
+    if (ok) {
+      setOutputSettings((prev) => ({ ...prev, deviceId }));
+    } else {
+      setError('切换输出设备失败');
+    }
+  };
+
+  const refreshOutputDevices = () => {
+    audioProcessorRef.current?.listOutputDevices().then(setOutputDevices).catch(() => {});
+  };
+
+  const handleCalibrateVAD = () => {
+    audioProcessorRef.current?.calibrateVAD();
+  };
+
+  const meterLevels = vadLevels || {
+    noiseFloor: 0,
+    speechThreshold: vadConfig.speechThreshold,
+    silenceThreshold: vadConfig.silenceThreshold,
+    calibrating: false,
+  };
+  speechVolumeRef.current = toDisplayVolume(meterLevels.speechThreshold);
+
+  // ==================== 对话项操作 ====================
+  const canEditHistory = connectionStatus === 'connected' && !isResponding;
+
+  const handleDeleteTurn = (message: Message) => {
+    if (!message.itemId) return;
+    realtimeRef.current?.deleteTurn(message.itemId);
+  };
+
+  const handleStartEdit = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditingText(message.content);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessageId(null);
+    setEditingText('');
+  };
+
+  const handleSaveEdit = (message: Message) => {
+    const text = editingText.trim();
+    if (!message.itemId || !text) return;
+
+    const newItemId = realtimeRef.current?.editUserMessage(message.itemId, text);
+    if (newItemId) {
+      addMessage('user', text, false, newItemId);
+    }
+    handleCancelEdit();
+  };
+
+  const handleRegenerate = (message: Message) => {
+    if (!message.itemId) return;
+    realtimeRef.current?.regenerateFrom(message.itemId);
+  };
+
   // ==================== 清空对话 ====================
   const handleClearChat = () => {
     setMessages([]);
     setStreamingText('');
+    setCaption(null);
+  };
+
+  // ==================== 延迟统计 ====================
+  const handleExportMetrics = () => {
+    const json = latencyTrackerRef.current?.exportJson();
+    if (!json) return;
+    downloadFile(`latency-${getTimestamp()}.json`, json, 'application/json');
+  };
+
+  // ==================== 调试日志 ====================
+  const handleLogLevelChange = (level: LogLevel, namespace?: LogNamespace) => {
+    logManager.setLevel(level, namespace);
+    setLogLevels(logManager.getLevels());
+  };
+
+  const filteredLogs = showDebug
+    ? logEntries.filter((entry) => (
+      LOG_LEVELS.indexOf(entry.level) >= LOG_LEVELS.indexOf(logFilter.level)
+      && (logFilter.namespace === 'all' || entry.namespace === logFilter.namespace)
+      && (!logFilter.text || entry.message.toLowerCase().includes(logFilter.text.toLowerCase()))
+    ))
+    : [];
+
+  const handleExportLogs = () => {
+    downloadFile(`logs-${getTimestamp()}.jsonl`, logManager.exportJsonl(filteredLogs), 'application/x-ndjson');
+  };
+
+  // ==================== 录制与回放 ====================
+  const handleToggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording()) {
+      recorder.stop();
+      setIsRecording(false);
+      setRecordedCount(recorder.count);
+    } else {
+      recorder.start(recordAudio);
+      setIsRecording(true);
+      setRecordedCount(0);
+    }
+  };
+
+  const handleDownloadRecording = () => {
+    const jsonl = recorderRef.current.toJsonl();
+    if (!jsonl) return;
+    downloadFile(`realtime-session-${getTimestamp()}.jsonl`, jsonl, 'application/x-ndjson');
+  };
+
+  const handleLoadRecording = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const recording = parseRecording(await file.text());
+      setReplay({ name: file.name, recording });
+      setReplayProgress(null);
+    } catch (err: any) {
+      setError('录制文件无效: ' + err.message);
+    }
+  };
+
+  const handleStartReplay = async () => {
+    if (!replay) return;
+    if (connectionStatus === 'connected' || connectionStatus === 'reconnecting') {
+      handleDisconnect();
+    }
+    handleClearChat();
+    setShowSettings(false);
+    await handleConnect(createReplayTransport(replay.recording, {
+      speed: replaySpeed,
+      onProgress: (played, total) => setReplayProgress({ played, total }),
+      onComplete: () => setIsResponding(false),
+    }));
   };
 
   // ==================== 渲染 ====================
   const isConnected = connectionStatus === 'connected';
+  const latencyStats = showMetrics ? latencyTrackerRef.current?.getStats() || [] : [];
+  const formatMs = (value: number | null) => (value === null ? '-' : `${value}ms`);
+
+  // 流式气泡的字幕：已说出的词高亮；语音优先模式下只显示已说出的部分
+  const spokenLength = caption?.spokenLength ?? 0;
+  const captionSource = caption && caption.text.length >= streamingText.length ? caption.text : streamingText;
+  const captionWords = caption && responseMode !== 'silent'
+    ? splitCaptionWords(captionSource).filter((word) => responseMode !== 'audio_first' || word.start < spokenLength)
+    : null;
 
   return (
     <div className="app">
@@ -444,6 +1110,20 @@ const App: React.FC = () => {
           <span className="version-tag">Realtime API</span>
         </div>
         <div className="header-right">
+          <button
+            className="btn btn-settings"
+            onClick={() => setShowDebug(!showDebug)}
+            title="调试日志"
+          >
+            🐞
+          </button>
+          <button
+            className="btn btn-settings"
+            onClick={() => setShowMetrics(!showMetrics)}
+            title="延迟统计"
+          >
+            📊
+          </button>
           <button
             className="btn btn-settings"
             onClick={() => setShowSettings(!showSettings)}
@@ -454,17 +1134,18 @@ const App: React.FC = () => {
           <span className={`connection-status ${connectionStatus}`}>
             {connectionStatus === 'connected' && '● 已连接'}
             {connectionStatus === 'connecting' && '○ 连接中...'}
+            {connectionStatus === 'reconnecting' && `○ 重连中 (${reconnectAttempt})...`}
             {connectionStatus === 'disconnected' && '○ 未连接'}
             {connectionStatus === 'error' && '● 连接错误'}
           </span>
-          {isConnected ? (
+          {isConnected || connectionStatus === 'reconnecting' ? (
             <button className="btn btn-disconnect" onClick={handleDisconnect}>
               断开连接
             </button>
           ) : (
             <button
               className="btn btn-connect"
-              onClick={handleConnect}
+              onClick={() => handleConnect()}
               disabled={connectionStatus === 'connecting'}
             >
               {connectionStatus === 'connecting' ? '连接中...' : '连接'}
@@ -482,6 +1163,23 @@ const App: React.FC = () => {
           </div>
 
           <div className="settings-content">
+            <div className="setting-item">
+              <label>后端</label>
+              <select
+                value={mockScenario}
+                onChange={(e) => setMockScenario(e.target.value)}
+                disabled={isConnected}
+              >
+                <option value="">MiniMax Realtime API</option>
+                {MOCK_SCENARIOS.map((scenario) => (
+                  <option key={scenario.name} value={scenario.name}>
+                    离线模拟：{scenario.name}{scenario.description ? ` - ${scenario.description}` : ''}
+                  </option>
+                ))}
+              </select>
+              <span className="setting-hint">离线模拟无需 API Key，按场景脚本返回文本和合成音频</span>
+            </div>
+
             <div className="setting-item">
               <label>API Key</label>
               <input
@@ -491,7 +1189,7 @@ const App: React.FC = () => {
                 placeholder="输入 MiniMax API Key"
                 disabled={isConnected}
               />
-              {!apiKey && <span className="setting-hint">必填，用于连接 MiniMax Realtime API</span>}
+              {!apiKey && !mockScenario && <span className="setting-hint">必填，用于连接 MiniMax Realtime API</span>}
             </div>
 
             <div className="setting-item">
@@ -508,6 +1206,261 @@ const App: React.FC = () => {
               </span>
             </div>
 
+            <div className="setting-item">
+              <label>轮次检测</label>
+              <select
+                value={turnDetection}
+                onChange={(e) => setTurnDetection(e.target.value as TurnDetectionMode)}
+                disabled={isConnected}
+              >
+                <option value="client">本地 VAD（浏览器检测静音后提交）</option>
+                <option value="server">服务端 VAD（由服务端判断说话开始/结束）</option>
+              </select>
+              <span className="setting-hint">
+                {isConnected ? '断开连接后可修改' : '服务端 VAD 会自动提交音频并生成回复'}
+              </span>
+            </div>
+
+            <div className="setting-item">
+              <label>本地 VAD</label>
+              <select value={vadEngine} onChange={(e) => handleVADEngineChange(e.target.value as VADEngineType)}>
+                {VAD_ENGINE_OPTIONS.map((option) => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+              <div className="setting-row">
+                <label className="setting-field">
+                  说话阈值
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.005"
+                    value={vadConfig.speechThreshold}
+                    onChange={(e) => handleVADConfigChange({ speechThreshold: Number(e.target.value) })}
+                  />
+                </label>
+                <label className="setting-field">
+                  静音阈值
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.005"
+                    value={vadConfig.silenceThreshold}
+                    onChange={(e) => handleVADConfigChange({ silenceThreshold: Number(e.target.value) })}
+                  />
+                </label>
+                <label className="setting-field">
+                  静音时长 (ms)
+                  <input
+                    type="number"
+                    min="0"
+                    step="100"
+                    value={vadConfig.silenceDuration}
+                    onChange={(e) => handleVADConfigChange({ silenceDuration: Number(e.target.value) })}
+                  />
+                </label>
+                <label className="setting-field">
+                  最短说话 (ms)
+                  <input
+                    type="number"
+                    min="0"
+                    step="50"
+                    value={vadConfig.minSpeechDuration}
+                    onChange={(e) => handleVADConfigChange({ minSpeechDuration: Number(e.target.value) })}
+                  />
+                </label>
+              </div>
+              <div className="setting-row">
+                <label className="setting-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={vadConfig.adaptive}
+                    onChange={(e) => handleVADConfigChange({ adaptive: e.target.checked })}
+                  />
+                  自适应噪声
+                </label>
+                <label className="setting-field">
+                  噪声倍数
+                  <input
+                    type="number"
+                    min="1"
+                    step="0.5"
+                    value={vadConfig.speechRatio}
+                    onChange={(e) => handleVADConfigChange({ speechRatio: Number(e.target.value) })}
+                    disabled={!vadConfig.adaptive}
+                  />
+                </label>
+                <button className="btn btn-reset" onClick={handleCalibrateVAD} disabled={!isListening || meterLevels.calibrating}>
+                  {meterLevels.calibrating ? '📏 测量中...' : '📏 重新校准'}
+                </button>
+              </div>
+              <div className="vad-meter">
+                <div ref={volumeFillRef} className="vad-meter-fill" style={{ width: 0 }} />
+                <div className="vad-meter-marker noise" style={{ left: `${toDisplayVolume(meterLevels.noiseFloor) * 100}%` }} title="噪声底" />
+                <div className="vad-meter-marker silence" style={{ left: `${toDisplayVolume(meterLevels.silenceThreshold) * 100}%` }} title="静音阈值" />
+                <div className="vad-meter-marker speech" style={{ left: `${toDisplayVolume(meterLevels.speechThreshold) * 100}%` }} title="说话阈值" />
+              </div>
+              <span className="setting-hint">
+                {meterLevels.calibrating
+                  ? '正在测量环境噪声，请保持安静...'
+                  : `噪声底 ${meterLevels.noiseFloor.toFixed(4)}，生效阈值：说话 ${meterLevels.speechThreshold.toFixed(4)} / 静音 ${meterLevels.silenceThreshold.toFixed(4)}；开始监听时自动测量环境噪声，仅在本地 VAD 模式下生效${vadEngine === 'spectral' ? '；频谱引擎会忽略助手语音的回声，不戴耳机时推荐使用' : ''}`}
+              </span>
+            </div>
+
+            <div className="setting-item">
+              <label>麦克风</label>
+              <select
+                value={micSettings.deviceId || ''}
+                onChange={(e) => handleMicrophoneChange({ deviceId: e.target.value || null })}
+              >
+                <option value="">系统默认设备</option>
+                {inputDevices.map((device) => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+                ))}
+                {micSettings.deviceId && !inputDevices.some((device) => device.deviceId === micSettings.deviceId) && (
+                  <option value={micSettings.deviceId}>已选设备（未连接）</option>
+                )}
+              </select>
+              <div className="setting-row">
+                <label className="setting-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={micSettings.echoCancellation}
+                    onChange={(e) => handleMicrophoneChange({ echoCancellation: e.target.checked })}
+                  />
+                  回声消除
+                </label>
+                <label className="setting-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={micSettings.noiseSuppression}
+                    onChange={(e) => handleMicrophoneChange({ noiseSuppression: e.target.checked })}
+                  />
+                  降噪
+                </label>
+                <label className="setting-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={micSettings.autoGainControl}
+                    onChange={(e) => handleMicrophoneChange({ autoGainControl: e.target.checked })}
+                  />
+                  自动增益
+                </label>
+              </div>
+              <span className="setting-hint">
+                {activeInput
+                  ? `当前使用：${activeInput.device?.label || '默认设备'}${activeInput.isFallback ? '（所选设备不可用，已回退到默认设备，重新接入后自动切回）' : ''}`
+                  : '选择会被记住；监听中切换或插拔设备时自动切换，无需重新连接'}
+              </span>
+            </div>
+
+            <div className="setting-item">
+              <label>麦克风上传</label>
+              <div className="setting-row">
+                <select value={captureMode} onChange={(e) => handleCaptureModeChange(e.target.value as CaptureMode)}>
+                  <option value="continuous">持续上传</option>
+                  <option value="speech">仅说话时上传</option>
+                </select>
+                <label className="setting-field">
+                  预录 (ms)
+                  <input
+                    type="number"
+                    min="0"
+                    step="50"
+                    value={preRollMs}
+                    onChange={(e) => handleCaptureModeChange(captureMode, Number(e.target.value))}
+                    disabled={captureMode !== 'speech'}
+                  />
+                </label>
+              </div>
+              <span className="setting-hint">
+                {captureMode !== 'speech'
+                  ? '持续上传所有麦克风音频（包括静音）'
+                  : captureStats && captureStats.capturedMs > 0
+                    ? `本次监听采集 ${(captureStats.capturedMs / 1000).toFixed(1)}s，上传 ${(captureStats.uploadedMs / 1000).toFixed(1)}s，节省 ${(captureStats.savedMs / 1000).toFixed(1)}s（${Math.round((captureStats.savedMs / captureStats.capturedMs) * 100)}%）`
+                    : '本地 VAD 检测到说话后才上传，并补发说话前的预录音频，避免丢失第一个音节'}
+              </span>
+            </div>
+
+            <div className="setting-item">
+              <label>费用预算{usage ? ` (${usage.currency})` : ''}</label>
+              <div className="setting-row">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={softBudget}
+                  onChange={(e) => setSoftBudget(e.target.value)}
+                  placeholder="提醒额度"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={hardBudget}
+                  onChange={(e) => setHardBudget(e.target.value)}
+                  placeholder="上限"
+                />
+                <select
+                  value={budgetScope}
+                  onChange={(e) => setBudgetScope(e.target.value as UsageBudget['scope'])}
+                >
+                  <option value="day">按当天</option>
+                  <option value="conversation">按本次会话</option>
+                </select>
+              </div>
+              <span className="setting-hint">
+                {usage
+                  ? `今日已用 ${usage.day.totalTokens} tokens，约 ${usage.currency}${usage.day.cost.toFixed(4)}；超出上限后自动断开连接`
+                  : '留空表示不限制；超出上限后自动断开连接'}
+              </span>
+            </div>
+
+            <div className="setting-item">
+              <label>事件录制与回放</label>
+              <div className="setting-row">
+                <button className="btn btn-reset" onClick={handleToggleRecording}>
+                  {isRecording ? '⏹️ 停止录制' : '⏺️ 开始录制'}
+                </button>
+                <button
+                  className="btn btn-reset"
+                  onClick={handleDownloadRecording}
+                  disabled={isRecording || recordedCount === 0}
+                >
+                  下载 JSONL{recordedCount > 0 ? ` (${recordedCount})` : ''}
+                </button>
+                <label className="setting-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={recordAudio}
+                    onChange={(e) => setRecordAudio(e.target.checked)}
+                    disabled={isRecording}
+                  />
+                  包含音频
+                </label>
+              </div>
+              <div className="setting-row">
+                <input
+                  type="file"
+                  accept=".jsonl,.ndjson,application/x-ndjson"
+                  onChange={(e) => handleLoadRecording(e.target.files?.[0])}
+                />
+                <select value={replaySpeed} onChange={(e) => setReplaySpeed(Number(e.target.value))}>
+                  {REPLAY_SPEEDS.map((speed) => (
+                    <option key={speed} value={speed}>{speed}x</option>
+                  ))}
+                </select>
+                <button className="btn btn-reset" onClick={handleStartReplay} disabled={!replay}>
+                  ⏯️ 回放
+                </button>
+              </div>
+              <span className="setting-hint">
+                {replay
+                  ? `${replay.name}：${replay.recording.entries.length} 个事件${replayProgress ? `，已回放 ${replayProgress.played}/${replayProgress.total}` : ''}`
+                  : '录制收发的所有事件；回放时按原始时间间隔重新驱动界面和音频播放（不会发送到服务端）'}
+              </span>
+            </div>
+
             <div className="setting-actions">
               <button
                 className="btn btn-reset"
@@ -521,6 +1474,143 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* 延迟统计面板 */}
+      {showMetrics && (
+        <div className="settings-panel metrics-panel">
+          <div className="settings-header">
+            <h3>延迟统计（{latencyTurns.length} 轮）</h3>
+            <button className="btn-close" onClick={() => setShowMetrics(false)}>×</button>
+          </div>
+
+          <div className="settings-content">
+            <table className="metrics-table">
+              <thead>
+                <tr>
+                  <th>阶段</th>
+                  <th>p50</th>
+                  <th>p95</th>
+                  <th>最近</th>
+                  <th>样本</th>
+                </tr>
+              </thead>
+              <tbody>
+                {latencyStats.map((stat) => (
+                  <tr key={stat.key}>
+                    <td>{stat.label}</td>
+                    <td>{formatMs(stat.p50)}</td>
+                    <td>{formatMs(stat.p95)}</td>
+                    <td>{formatMs(stat.last)}</td>
+                    <td>{stat.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="metrics-turns">
+              {latencyTurns.slice(-10).reverse().map((turn) => (
+                <div key={turn.id} className="metrics-turn">
+                  <span className="metrics-turn-title">
+                    #{turn.id} {new Date(turn.startedAt).toLocaleTimeString()}
+                  </span>
+                  {LATENCY_METRICS.map((metric) => {
+                    const value = getTurnMetric(turn, metric);
+                    return value === null ? null : (
+                      <span key={metric.key} className="metrics-chip">
+                        {metric.label} {value}ms
+                      </span>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+
+            <div className="setting-actions">
+              <button className="btn btn-reset" onClick={handleExportMetrics} disabled={latencyTurns.length === 0}>
+                导出 JSON
+              </button>
+              <button className="btn btn-reset" onClick={() => latencyTrackerRef.current?.clear()}>
+                清空
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 调试日志面板 */}
+      {showDebug && (
+        <div className="debug-drawer">
+          <div className="settings-header">
+            <h3>调试日志（{filteredLogs.length}/{logEntries.length}）</h3>
+            <button className="btn-close" onClick={() => setShowDebug(false)}>×</button>
+          </div>
+
+          <div className="debug-levels">
+            <label>
+              默认
+              <select value={logLevels.default} onChange={(e) => handleLogLevelChange(e.target.value as LogLevel)}>
+                {LOG_LEVELS.map((level) => <option key={level} value={level}>{level}</option>)}
+              </select>
+            </label>
+            {LOG_NAMESPACES.map((namespace) => (
+              <label key={namespace}>
+                {namespace}
+                <select
+                  value={logLevels[namespace] || logLevels.default}
+                  onChange={(e) => handleLogLevelChange(e.target.value as LogLevel, namespace)}
+                >
+                  {LOG_LEVELS.map((level) => <option key={level} value={level}>{level}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="debug-filters">
+            <select
+              value={logFilter.namespace}
+              onChange={(e) => setLogFilter({ ...logFilter, namespace: e.target.value as LogNamespace | 'all' })}
+            >
+              <option value="all">全部</option>
+              {LOG_NAMESPACES.map((namespace) => <option key={namespace} value={namespace}>{namespace}</option>)}
+            </select>
+            <select
+              value={logFilter.level}
+              onChange={(e) => setLogFilter({ ...logFilter, level: e.target.value as LogLevel })}
+            >
+              {LOG_LEVELS.map((level) => <option key={level} value={level}>≥ {level}</option>)}
+            </select>
+            <input
+              type="text"
+              value={logFilter.text}
+              onChange={(e) => setLogFilter({ ...logFilter, text: e.target.value })}
+              placeholder="搜索..."
+            />
+          </div>
+
+          <div className="debug-logs">
+            {filteredLogs.slice(-MAX_VISIBLE_LOGS).reverse().map((entry) => {
+              const data = formatLogData(entry.data);
+              return (
+                <div key={entry.id} className={`debug-log ${entry.level}`}>
+                  <span className="debug-log-time">{new Date(entry.time).toLocaleTimeString()}</span>
+                  <span className="debug-log-namespace">{entry.namespace}</span>
+                  <span className="debug-log-message">{entry.message}</span>
+                  {data && <span className="debug-log-data" title={data}>{data}</span>}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="setting-actions">
+            <button className="btn btn-reset" onClick={handleExportLogs} disabled={filteredLogs.length === 0}>
+              导出 JSONL
+            </button>
+            <button className="btn btn-reset" onClick={() => logManager.clear()}>
+              清空
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 聊天区域 */}
       <div className="chat-container">
         <div className="messages-container">
@@ -544,36 +1634,127 @@ const App: React.FC = () => {
                 </div>
               </div>
               {!isConnected && (
-                <button className="btn btn-primary btn-large" onClick={handleConnect}>
+                <button className="btn btn-primary btn-large" onClick={() => handleConnect()}>
                   开始使用
                 </button>
               )}
             </div>
           ) : (
             <>
-              {messages.map((message) => (
+              {messages.map((message) => message.toolCall ? (
+                <div key={message.id} className="message tool">
+                  <div className={`message-bubble tool-call ${message.toolCall.status}`}>
+                    <div className="tool-call-header">
+                      <span>🛠️ {message.toolCall.name}</span>
+                      <span className="tool-call-status">
+                        {message.toolCall.status === 'running' && '执行中...'}
+                        {message.toolCall.status === 'completed' && '已完成'}
+                        {message.toolCall.status === 'failed' && '失败'}
+                      </span>
+                    </div>
+                    <div className="tool-call-detail">参数：{message.toolCall.arguments || '{}'}</div>
+                    {message.toolCall.output && (
+                      <div className="tool-call-detail">结果：{message.toolCall.error || message.toolCall.output}</div>
+                    )}
+                  </div>
+                </div>
+              ) : (
                 <div key={message.id} className={`message ${message.role}`}>
                   <div className="message-bubble">
-                    <div className="message-content">
-                      {message.content}
-                      {message.isAudio && <span className="audio-indicator">🎤</span>}
-                    </div>
-                    <div className="message-time">
-                      {message.timestamp.toLocaleTimeString('zh-CN', {
-                        hour: '2-digit',
-                        minute: '2-digit',
-                      })}
+                    {editingMessageId === message.id ? (
+                      <div className="message-edit">
+                        <textarea
+                          value={editingText}
+                          onChange={(e) => setEditingText(e.target.value)}
+                          rows={3}
+                          autoFocus
+                        />
+                        <div className="message-edit-actions">
+                          <button className="btn-message-action" onClick={handleCancelEdit}>取消</button>
+                          <button
+                            className="btn-message-action primary"
+                            onClick={() => handleSaveEdit(message)}
+                            disabled={!canEditHistory || !editingText.trim()}
+                          >
+                            保存并重新提问
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="message-content">
+                        {message.content}
+                        {message.truncated && <span className="truncated-indicator" title="回复被打断，仅显示已播放的部分">…（已打断）</span>}
+                        {message.role === 'user' && (
+                          <span className="audio-indicator" title={message.isAudio ? '语音输入' : '文字输入'}>
+                            {message.isAudio ? '🎤' : '⌨️'}
+                          </span>
+                        )}
+                        {message.role === 'assistant' && message.isAudio && (
+                          <span className="audio-indicator" title="语音回复">🔊</span>
+                        )}
+                      </div>
+                    )}
+                    <div className="message-footer">
+                      {message.itemId && editingMessageId !== message.id && (
+                        <div className="message-actions">
+                          {message.role === 'user' && (
+                            <button
+                              className="btn-message-action"
+                              onClick={() => handleStartEdit(message)}
+                              disabled={!canEditHistory}
+                              title="编辑并重新提问"
+                            >
+                              ✏️
+                            </button>
+                          )}
+                          {message.role === 'assistant' && (
+                            <button
+                              className="btn-message-action"
+                              onClick={() => handleRegenerate(message)}
+                              disabled={!canEditHistory}
+                              title="重新生成"
+                            >
+                              🔄
+                            </button>
+                          )}
+                          <button
+                            className="btn-message-action"
+                            onClick={() => handleDeleteTurn(message)}
+                            disabled={!canEditHistory}
+                            title="删除本轮对话"
+                          >
+                            🗑️
+                          </button>
+                        </div>
+                      )}
+                      <div className="message-time">
+                        {message.timestamp.toLocaleTimeString('zh-CN', {
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })}
+                      </div>
                     </div>
                   </div>
                 </div>
               ))}
 
               {/* AI 响应流式显示 */}
-              {streamingText && (
+              {(streamingText || (captionWords && captionWords.length > 0)) && (
                 <div className="message assistant">
                   <div className="message-bubble streaming">
                     <div className="message-content">
-                      {streamingText}
+                      {captionWords
+                        ? captionWords.map((word) => (
+                          <span
+                            key={word.start}
+                            className={`caption-word ${
+                              word.end <= spokenLength ? 'spoken' : word.start < spokenLength ? 'current' : ''
+                            }`}
+                          >
+                            {word.text}
+                          </span>
+                        ))
+                        : streamingText}
                       <span className="streaming-cursor">▋</span>
                     </div>
                   </div>
@@ -595,15 +1776,77 @@ const App: React.FC = () => {
 
         {/* 设置栏 */}
         <div className="settings-bar">
-          <div className="voice-selector">
-            <label>🎤 音色：</label>
-            <select value={selectedVoice} onChange={(e) => handleVoiceChange(e.target.value)}>
-              {VOICE_OPTIONS.map((voice) => (
-                <option key={voice.id} value={voice.id}>
-                  {voice.name}
-                </option>
-              ))}
-            </select>
+          <div className="selector-group">
+            <div className="voice-selector">
+              <label>🎤 音色：</label>
+              <select
+                value={selectedVoice}
+                onChange={(e) => handleVoiceChange(e.target.value)}
+                disabled={responseMode === 'silent'}
+              >
+                {VOICE_OPTIONS.map((voice) => (
+                  <option key={voice.id} value={voice.id}>
+                    {voice.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="voice-selector">
+              <label>💬 回复：</label>
+              <select value={responseMode} onChange={(e) => handleResponseModeChange(e.target.value as ResponseMode)}>
+                {RESPONSE_MODE_OPTIONS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="voice-selector volume-control">
+              <button
+                type="button"
+                className="btn-mute"
+                onClick={handleToggleMute}
+                title={outputSettings.muted ? '取消静音' : '静音'}
+              >
+                {outputSettings.muted || outputSettings.volume === 0 ? '🔇' : '🔊'}
+              </button>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={outputSettings.muted ? 0 : outputSettings.volume}
+                onChange={(e) => handleVolumeChange(Number(e.target.value))}
+                title={`音量 ${Math.round(outputSettings.volume * 100)}%`}
+              />
+            </div>
+            <div className="voice-selector">
+              <label>⏩ 语速：</label>
+              <select
+                value={outputSettings.playbackRate}
+                onChange={(e) => handlePlaybackRateChange(Number(e.target.value))}
+                disabled={responseMode === 'silent'}
+              >
+                {PLAYBACK_RATES.map((rate) => (
+                  <option key={rate} value={rate}>{rate}x</option>
+                ))}
+              </select>
+            </div>
+            {audioProcessorRef.current?.isOutputDeviceSupported() && (
+              <div className="voice-selector">
+                <label>🔈 输出：</label>
+                <select
+                  value={outputSettings.deviceId || ''}
+                  onFocus={refreshOutputDevices}
+                  onChange={(e) => handleOutputDeviceChange(e.target.value || null)}
+                >
+                  <option value="">系统默认</option>
+                  {outputDevices.map((device) => (
+                    <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
           {messages.length > 0 && (
             <button className="btn btn-clear" onClick={handleClearChat}>
@@ -627,7 +1870,7 @@ const App: React.FC = () => {
               onClick={handleVoiceInput}
               disabled={connectionStatus === 'connecting'}
               title={isConversationMode ? '结束对话' : '开始对话'}
-              style={isListening ? { boxShadow: `0 0 ${10 + volume * 30}px rgba(59, 130, 246, ${0.5 + volume * 0.5})` } : undefined}
+              ref={voiceButtonRef}
             >
               {isConversationMode ? (isListening ? '👂' : '💬') : '🎤'}
             </button>
@@ -636,6 +1879,28 @@ const App: React.FC = () => {
               <div style={{ width: 56 }} /> /* 占位，保持按钮居中 */
             )}
           </div>
+
+          {/* 文本输入 */}
+          <div className="composer">
+            <textarea
+              className="composer-input"
+              value={composerText}
+              onChange={(e) => setComposerText(e.target.value)}
+              onKeyDown={handleComposerKeyDown}
+              placeholder={isConversationMode ? '输入文字（输入时暂停语音提交）...' : '输入消息，Enter 发送，Shift+Enter 换行'}
+              rows={Math.min(5, Math.max(1, composerText.split('\n').length))}
+              disabled={connectionStatus === 'connecting'}
+            />
+            <button
+              type="button"
+              className="btn btn-send"
+              onClick={handleSendText}
+              disabled={!composerText.trim() || connectionStatus === 'connecting'}
+              title="发送"
+            >
+              发送
+            </button>
+          </div>
         </div>
 
         {/* 状态栏 */}
@@ -653,7 +1918,7 @@ const App: React.FC = () => {
           {isListening && (
             <div className="status-item recording">
               <span className="status-dot pulse"></span>
-              <span>正在听...</span>
+              <span>{isUserSpeaking ? '说话中...' : '正在听...'}</span>
             </div>
           )}
           {isResponding && (
@@ -662,6 +1927,23 @@ const App: React.FC = () => {
               <span>AI 回复中...</span>
             </div>
           )}
+          {backpressure && (
+            <div className="status-item congested" title={`排队事件 ${backpressure.queuedEvents} 个`}>
+              <span className="status-dot pulse"></span>
+              <span>
+                {backpressure.active ? '网络拥塞，已暂停上传麦克风' : '等待连接'}，已缓存 {(backpressure.queuedAudioMs / 1000).toFixed(1)}s 音频
+                {backpressure.overflow && '（队列已满）'}
+              </span>
+            </div>
+          )}
+          {usage && usage.conversation.responses > 0 && (
+            <div
+              className={`status-item usage ${usage.budgetLevel !== 'ok' ? `over-budget ${usage.budgetLevel}` : ''}`}
+              title={`本次会话 ${usage.conversation.responses} 次响应，今日累计 ${usage.day.totalTokens} tokens / ${usage.currency}${usage.day.cost.toFixed(4)}`}
+            >
+              <span>💰 {usage.conversation.totalTokens} tokens · {usage.currency}{usage.conversation.cost.toFixed(4)}</span>
+            </div>
+          )}
         </div>
       </div>
     </div>
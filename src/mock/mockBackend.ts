@@ -0,0 +1,629 @@
+/**
+ * 离线模拟 Realtime 后端
+ * 按场景脚本模拟 MiniMax Realtime API 的事件协议（会话、对话项、文本/音频流、函数调用、错误、断线），
+ * 浏览器内（MockTransport）和本地 WebSocket 服务（server/mock.js）共用同一实现
+ *
+ * 注意：该文件会被单独编译给 Node 使用，不要引入浏览器专用 API
+ */
+
+import {
+  ClientEvent,
+  ConversationItem,
+  Modality,
+  PCM16_SAMPLE_RATE,
+  ResponseStatus,
+  ResponseUsage,
+  Session,
+  getPcm16DurationMs,
+} from '../services/realtimeEvents';
+import { getItemText } from '../services/conversationMirror';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('realtime');
+
+// ==================== 场景定义 ====================
+
+/**
+ * 场景步骤
+ * - reply:         助手回复（文本增量 + 合成的 PCM16 音频增量）
+ * - function_call: 调用函数工具，客户端返回结果后由下一轮继续
+ * - error:         发送 error 事件
+ * - disconnect:    关闭连接
+ * - delay:         等待指定毫秒
+ * - event:         原样发送一个服务端事件
+ */
+export type MockStep =
+  | { type: 'reply'; text: string; audioMs?: number }
+  | { type: 'function_call'; name: string; arguments?: Record<string, unknown> | string }
+  | { type: 'error'; message: string; code?: string; errorType?: string }
+  | { type: 'disconnect'; code?: number; reason?: string }
+  | { type: 'delay'; ms: number }
+  | { type: 'event'; event: Record<string, unknown> };
+
+// 一轮响应：每次 response.create（或服务端 VAD 自动响应）按顺序消费一轮
+export interface MockTurn {
+  transcript?: string;  // 该轮语音输入的模拟识别结果
+  steps: MockStep[];
+}
+
+export interface MockTiming {
+  eventDelayMs: number;    // 普通事件之间的间隔
+  chunkMs: number;         // 每个音频块的时长
+  chunkDelayMs: number;    // 流式块之间的间隔
+  textChunkSize: number;   // 每个文本增量的字符数
+  charAudioMs: number;     // 未指定 audioMs 时，每个字符对应的音频时长
+}
+
+export interface MockScenario {
+  name: string;
+  description?: string;
+  onConnect?: MockStep[];      // 连接建立后执行的步骤
+  turns: MockTurn[];
+  loop?: boolean;              // 轮次用完后是否从头循环
+  timing?: Partial<MockTiming>;
+}
+
+export const DEFAULT_MOCK_TIMING: MockTiming = {
+  eventDelayMs: 30,
+  chunkMs: 100,
+  chunkDelayMs: 40,
+  textChunkSize: 4,
+  charAudioMs: 120,
+};
+
+// 场景轮次用完且不循环时的回复
+const EXHAUSTED_TURN: MockTurn = {
+  steps: [{ type: 'reply', text: '（模拟场景已结束）' }],
+};
+
+// 服务端 VAD 模拟参数
+const VAD_SPEECH_THRESHOLD = 0.02;
+const DEFAULT_SILENCE_DURATION_MS = 500;
+
+/**
+ * 模拟后端的输出端：浏览器内为 MockTransport，本地服务为 ws 连接
+ */
+export interface MockBackendSink {
+  send(event: Record<string, unknown>): void;
+  close(code: number, reason: string): void;
+}
+
+// ==================== 合成音频 ====================
+
+/**
+ * 生成 PCM16 单声道正弦音（Base64），phase 用于保证相邻块之间的相位连续
+ */
+export function synthesizePcm16(durationMs: number, phase = 0, frequency = 220): { audio: string; phase: number } {
+  const samples = Math.round((durationMs / 1000) * PCM16_SAMPLE_RATE);
+  const step = (2 * Math.PI * frequency) / PCM16_SAMPLE_RATE;
+  let binary = '';
+  for (let i = 0; i < samples; i++) {
+    const value = Math.round(Math.sin(phase + i * step) * 0.2 * 0x7fff);
+    binary += String.fromCharCode(value & 0xff, (value >> 8) & 0xff);
+  }
+  return { audio: btoa(binary), phase: (phase + samples * step) % (2 * Math.PI) };
+}
+
+function getPcm16Rms(base64: string): number {
+  const binary = atob(base64);
+  const samples = Math.floor(binary.length / 2);
+  if (samples === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    let value = binary.charCodeAt(i * 2) | (binary.charCodeAt(i * 2 + 1) << 8);
+    if (value >= 0x8000) value -= 0x10000;
+    sum += (value / 0x8000) ** 2;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+// ==================== 模拟后端 ====================
+
+export class MockRealtimeBackend {
+  private scenario: MockScenario;
+  private sink: MockBackendSink;
+  private timing: MockTiming;
+
+  private session: Session;
+  private items: ConversationItem[] = [];
+  private itemAudioMs = new Map<string, number>();  // 助手回复的音频时长，用于截断
+  private turnIndex = 0;
+  private nextId = 1;
+
+  // 输入音频缓冲区
+  private bufferedAudioMs = 0;
+  private bufferStartMs = 0;      // 当前缓冲区在整个输入流中的起点
+  private totalAudioMs = 0;       // 累计收到的输入音频时长
+  private asrSeconds = 0;         // 本轮响应计入用量的识别时长
+  private isSpeaking = false;
+  private lastSpeechMs = 0;
+
+  // 响应
+  private responseChain: Promise<void> = Promise.resolve();
+  private activeResponseId: string | null = null;
+  private cancelledResponseId: string | null = null;
+  private stopped = false;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(scenario: MockScenario, sink: MockBackendSink) {
+    this.scenario = scenario;
+    this.sink = sink;
+    this.timing = { ...DEFAULT_MOCK_TIMING, ...scenario.timing };
+    this.session = {
+      id: this.generateId('sess'),
+      object: 'realtime.session',
+      model: 'mock',
+      modalities: ['text', 'audio'],
+      voice: 'mock',
+      input_audio_format: 'pcm16',
+      output_audio_format: 'pcm16',
+      turn_detection: null,
+    };
+  }
+
+  /**
+   * 连接建立：模拟代理握手和会话创建
+   */
+  start(): void {
+    log.info(`🧪 模拟后端已启动，场景: ${this.scenario.name}`);
+    this.emit({ type: 'proxy.connected', message: `Mock scenario: ${this.scenario.name}` });
+    this.emit({ type: 'session.created', session: this.session });
+    if (this.scenario.onConnect) {
+      const steps = this.scenario.onConnect;
+      this.responseChain = this.responseChain.then(async () => {
+        await this.runSteps(steps, null, [], null);
+      });
+    }
+  }
+
+  /**
+   * 连接关闭，停止所有进行中的响应
+   */
+  stop(): void {
+    this.stopped = true;
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * 处理客户端发来的文本帧
+   */
+  handleMessage(data: string): void {
+    if (this.stopped) return;
+
+    let event: ClientEvent;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      this.sendError('invalid_request_error', '无法解析客户端事件');
+      return;
+    }
+
+    // 心跳
+    if ('event' in event) return;
+
+    switch (event.type) {
+      case 'session.update':
+        this.session = { ...this.session, ...event.session };
+        this.emit({ type: 'session.updated', session: this.session });
+        break;
+
+      case 'input_audio_buffer.append':
+        this.appendAudio(event.audio);
+        break;
+
+      case 'input_audio_buffer.commit':
+        this.commitAudio();
+        break;
+
+      case 'input_audio_buffer.clear':
+        this.resetBuffer();
+        this.emit({ type: 'input_audio_buffer.cleared' });
+        break;
+
+      case 'conversation.item.create':
+        this.addItem(event.item, event.previous_item_id);
+        break;
+
+      case 'conversation.item.delete': {
+        const itemId = event.item_id;
+        const index = this.items.findIndex((item) => item.id === itemId);
+        if (index === -1) {
+          this.sendError('invalid_request_error', `对话项不存在: ${itemId}`, 'item_not_found');
+          return;
+        }
+        this.items.splice(index, 1);
+        this.itemAudioMs.delete(itemId);
+        this.emit({ type: 'conversation.item.deleted', item_id: itemId });
+        break;
+      }
+
+      case 'conversation.item.truncate':
+        this.truncateItem(event.item_id, event.content_index, event.audio_end_ms);
+        break;
+
+      case 'response.create':
+        event.response?.input?.forEach((item) => this.addItem(item));
+        this.createResponse(event.response?.modalities);
+        break;
+
+      case 'response.cancel':
+        if (this.activeResponseId) {
+          this.cancelledResponseId = this.activeResponseId;
+        }
+        break;
+    }
+  }
+
+  // ==================== 输入音频 ====================
+
+  private appendAudio(audio: string): void {
+    const durationMs = getPcm16DurationMs(audio);
+    this.bufferedAudioMs += durationMs;
+    this.totalAudioMs += durationMs;
+
+    // 服务端 VAD：按音量判断说话开始/结束
+    const turnDetection = this.session.turn_detection;
+    if (!turnDetection) return;
+
+    if (getPcm16Rms(audio) > VAD_SPEECH_THRESHOLD) {
+      this.lastSpeechMs = this.totalAudioMs;
+      if (!this.isSpeaking) {
+        this.isSpeaking = true;
+        this.emit({
+          type: 'input_audio_buffer.speech_started',
+          audio_start_ms: Math.round(this.totalAudioMs - durationMs - this.bufferStartMs),
+          item_id: this.peekItemId(),
+        });
+      }
+      return;
+    }
+
+    const silenceMs = turnDetection.silence_duration_ms ?? DEFAULT_SILENCE_DURATION_MS;
+    if (this.isSpeaking && this.totalAudioMs - this.lastSpeechMs >= silenceMs) {
+      this.isSpeaking = false;
+      this.emit({
+        type: 'input_audio_buffer.speech_stopped',
+        audio_end_ms: Math.round(this.lastSpeechMs - this.bufferStartMs),
+        item_id: this.peekItemId(),
+      });
+      this.commitAudio();
+      if (turnDetection.create_response !== false) {
+        this.createResponse();
+      }
+    }
+  }
+
+  private commitAudio(): void {
+    if (this.bufferedAudioMs === 0) {
+      this.sendError('invalid_request_error', '音频缓冲区为空', 'input_audio_buffer_commit_empty');
+      return;
+    }
+
+    const itemId = this.generateId('item');
+    const previousItemId = this.getLastItemId();
+    this.asrSeconds += this.bufferedAudioMs / 1000;
+    this.resetBuffer();
+
+    this.emit({ type: 'input_audio_buffer.committed', previous_item_id: previousItemId, item_id: itemId });
+    const transcript = this.peekTurn().transcript || '（模拟语音输入）';
+    this.addItem({
+      id: itemId,
+      type: 'message',
+      role: 'user',
+      status: 'completed',
+      content: [{ type: 'input_audio', transcript }],
+    });
+  }
+
+  private resetBuffer(): void {
+    this.bufferedAudioMs = 0;
+    this.bufferStartMs = this.totalAudioMs;
+    this.isSpeaking = false;
+  }
+
+  // ==================== 对话项 ====================
+
+  private addItem(item: ConversationItem, previousItemId?: string): ConversationItem {
+    const created = { ...item, id: item.id || this.generateId('item'), status: item.status || 'completed' } as ConversationItem;
+    const index = previousItemId ? this.items.findIndex((existing) => existing.id === previousItemId) : -1;
+    const previous = index === -1 ? this.getLastItemId() : previousItemId;
+    if (index === -1) {
+      this.items.push(created);
+    } else {
+      this.items.splice(index + 1, 0, created);
+    }
+    this.emit({ type: 'conversation.item.created', previous_item_id: previous, item: created });
+    return created;
+  }
+
+  /**
+   * 截断助手回复的音频，转录按保留的音频比例截取（之后的用量按截断后的文本计算）
+   */
+  private truncateItem(itemId: string, contentIndex: number, audioEndMs: number): void {
+    const index = this.items.findIndex((item) => item.id === itemId);
+    const item = this.items[index];
+    if (!item || item.type !== 'message' || item.role !== 'assistant') {
+      this.sendError('invalid_request_error', `只能截断助手回复: ${itemId}`, 'item_not_found');
+      return;
+    }
+    const part = item.content[contentIndex];
+    const totalMs = this.itemAudioMs.get(itemId) || 0;
+    if (!part || part.type !== 'audio' || audioEndMs > totalMs) {
+      this.sendError('invalid_request_error', `audio_end_ms 超出音频长度: ${audioEndMs}ms`, 'invalid_audio_end_ms');
+      return;
+    }
+
+    const transcript = part.transcript || '';
+    const heard = transcript.slice(0, Math.round((transcript.length * audioEndMs) / totalMs));
+    const content = item.content.map((existing, i) => (i === contentIndex ? { ...part, transcript: heard } : existing));
+    this.items[index] = { ...item, status: 'incomplete', content };
+    this.itemAudioMs.set(itemId, audioEndMs);
+    this.emit({
+      type: 'conversation.item.truncated',
+      item_id: itemId,
+      content_index: contentIndex,
+      audio_end_ms: audioEndMs,
+    });
+  }
+
+  private getLastItemId(): string | null {
+    return this.items.length > 0 ? this.items[this.items.length - 1].id || null : null;
+  }
+
+  // ==================== 响应 ====================
+
+  private createResponse(modalities?: Modality[]): void {
+    this.responseChain = this.responseChain.then(() => this.runResponse(modalities || this.session.modalities || ['text', 'audio']));
+  }
+
+  private async runResponse(modalities: Modality[]): Promise<void> {
+    if (this.stopped) return;
+
+    const responseId = this.generateId('resp');
+    this.activeResponseId = responseId;
+    this.emit({
+      type: 'response.created',
+      response: { id: responseId, object: 'realtime.response', status: 'in_progress', output: [] },
+    });
+
+    // 输入为本轮开始前的上下文，不含本轮输出
+    const inputText = this.items.map(getItemText).join('');
+    const output: ConversationItem[] = [];
+    const status = await this.runSteps(this.nextTurn().steps, responseId, output, modalities);
+    this.activeResponseId = null;
+    if (this.stopped) return;
+
+    const outputText = output.map(getItemText).join('');
+    const usage: ResponseUsage = {
+      input_tokens: inputText.length,
+      output_tokens: outputText.length,
+      total_tokens: inputText.length + outputText.length,
+      total_asr_time: Math.round(this.asrSeconds * 100) / 100,
+      total_audio_characters: modalities.includes('audio') ? outputText.length : 0,
+    };
+    this.asrSeconds = 0;
+
+    await this.sleep(this.timing.eventDelayMs);
+    this.emit({
+      type: 'response.done',
+      response: { id: responseId, object: 'realtime.response', status, output, usage },
+    });
+  }
+
+  /**
+   * 依次执行步骤
+   * @returns 响应最终状态
+   */
+  private async runSteps(
+    steps: MockStep[],
+    responseId: string | null,
+    output: ConversationItem[],
+    modalities: Modality[] | null
+  ): Promise<ResponseStatus> {
+    let failed = false;
+    for (const step of steps) {
+      if (this.stopped) return 'incomplete';
+      if (responseId && this.cancelledResponseId === responseId) return 'cancelled';
+
+      switch (step.type) {
+        case 'reply':
+          if (responseId && modalities) {
+            const item = await this.streamReply(step.text, step.audioMs, responseId, output.length, modalities);
+            output.push(item);
+          }
+          break;
+
+        case 'function_call':
+          if (responseId) {
+            output.push(await this.streamFunctionCall(step.name, step.arguments, responseId, output.length));
+          }
+          break;
+
+        case 'error':
+          this.sendError(step.errorType || 'mock_error', step.message, step.code);
+          failed = true;
+          break;
+
+        case 'disconnect':
+          log.info('🧪 模拟断线');
+          this.sink.close(step.code || 4000, step.reason || 'Mock disconnect');
+          this.stop();
+          return 'incomplete';
+
+        case 'delay':
+          await this.sleep(step.ms);
+          break;
+
+        case 'event':
+          this.emit(step.event);
+          break;
+      }
+      await this.sleep(this.timing.eventDelayMs);
+    }
+
+    if (responseId && this.cancelledResponseId === responseId) return 'cancelled';
+    return failed ? 'failed' : 'completed';
+  }
+
+  /**
+   * 流式发送助手回复：文本增量与音频增量交替发送
+   */
+  private async streamReply(
+    text: string,
+    audioMs: number | undefined,
+    responseId: string,
+    outputIndex: number,
+    modalities: Modality[]
+  ): Promise<ConversationItem> {
+    const itemId = this.generateId('item');
+    const ref = { response_id: responseId, item_id: itemId, output_index: outputIndex, content_index: 0 };
+    const withAudio = modalities.includes('audio');
+
+    this.emit({
+      type: 'response.output_item.added',
+      response_id: responseId,
+      output_index: outputIndex,
+      item: { id: itemId, type: 'message', role: 'assistant', status: 'in_progress', content: [] },
+    });
+
+    const { textChunkSize, chunkMs, chunkDelayMs, charAudioMs } = this.timing;
+    const textChunks: string[] = [];
+    for (let i = 0; i < text.length; i += textChunkSize) {
+      textChunks.push(text.slice(i, i + textChunkSize));
+    }
+    const totalAudioMs = withAudio ? audioMs ?? text.length * charAudioMs : 0;
+    const audioChunks = Math.ceil(totalAudioMs / chunkMs);
+
+    let phase = 0;
+    let sentText = '';
+    let sentAudioMs = 0;
+    let status: 'completed' | 'incomplete' = 'completed';
+    for (let i = 0; i < Math.max(textChunks.length, audioChunks); i++) {
+      if (this.stopped || this.cancelledResponseId === responseId) {
+        status = 'incomplete';
+        break;
+      }
+      if (i < textChunks.length) {
+        sentText += textChunks[i];
+        this.emit({ type: 'response.text.delta', ...ref, delta: textChunks[i] });
+      }
+      if (i < audioChunks) {
+        const durationMs = Math.min(chunkMs, totalAudioMs - i * chunkMs);
+        const chunk = synthesizePcm16(durationMs, phase);
+        phase = chunk.phase;
+        sentAudioMs += durationMs;
+        this.emit({ type: 'response.audio.delta', ...ref, delta: chunk.audio });
+      }
+      await this.sleep(chunkDelayMs);
+    }
+
+    this.emit({ type: 'response.text.done', ...ref, text: sentText });
+    if (withAudio) {
+      this.emit({ type: 'response.audio.done', ...ref });
+      this.emit({ type: 'response.audio_transcript.done', ...ref, transcript: sentText });
+    }
+
+    const item: ConversationItem = {
+      id: itemId,
+      type: 'message',
+      role: 'assistant',
+      status,
+      content: withAudio ? [{ type: 'audio', transcript: sentText }] : [{ type: 'text', text: sentText }],
+    };
+    this.items.push(item);
+    if (withAudio) {
+      this.itemAudioMs.set(itemId, sentAudioMs);
+    }
+    this.emit({ type: 'response.output_item.done', response_id: responseId, output_index: outputIndex, item });
+    return item;
+  }
+
+  /**
+   * 流式发送函数调用参数
+   */
+  private async streamFunctionCall(
+    name: string,
+    args: Record<string, unknown> | string | undefined,
+    responseId: string,
+    outputIndex: number
+  ): Promise<ConversationItem> {
+    const itemId = this.generateId('item');
+    const callId = this.generateId('call');
+    const argsJson = typeof args === 'string' ? args : JSON.stringify(args || {});
+    const ref = { response_id: responseId, item_id: itemId, output_index: outputIndex, call_id: callId };
+
+    this.emit({
+      type: 'response.output_item.added',
+      response_id: responseId,
+      output_index: outputIndex,
+      item: { id: itemId, type: 'function_call', status: 'in_progress', call_id: callId, name, arguments: '' },
+    });
+
+    const half = Math.ceil(argsJson.length / 2);
+    for (const delta of [argsJson.slice(0, half), argsJson.slice(half)]) {
+      if (!delta) continue;
+      this.emit({ type: 'response.function_call_arguments.delta', ...ref, delta });
+      await this.sleep(this.timing.chunkDelayMs);
+    }
+    this.emit({ type: 'response.function_call_arguments.done', ...ref, name, arguments: argsJson });
+
+    const item: ConversationItem = {
+      id: itemId,
+      type: 'function_call',
+      status: 'completed',
+      call_id: callId,
+      name,
+      arguments: argsJson,
+    };
+    this.items.push(item);
+    this.emit({ type: 'response.output_item.done', response_id: responseId, output_index: outputIndex, item });
+    return item;
+  }
+
+  // ==================== 工具方法 ====================
+
+  private peekTurn(): MockTurn {
+    const { turns, loop } = this.scenario;
+    if (turns.length === 0) return EXHAUSTED_TURN;
+    if (this.turnIndex < turns.length) return turns[this.turnIndex];
+    return loop ? turns[this.turnIndex % turns.length] : EXHAUSTED_TURN;
+  }
+
+  private nextTurn(): MockTurn {
+    const turn = this.peekTurn();
+    this.turnIndex++;
+    return turn;
+  }
+
+  /**
+   * 下一个将要分配的对话项 ID（服务端 VAD 事件中使用）
+   */
+  private peekItemId(): string {
+    return `item_mock_${this.nextId}`;
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_mock_${this.nextId++}`;
+  }
+
+  private sendError(type: string, message: string, code?: string): void {
+    this.emit({ type: 'error', error: { type, message, code } });
+  }
+
+  private emit(event: Record<string, unknown>): void {
+    if (this.stopped) return;
+    this.sink.send(event);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, ms);
+      this.timers.add(timer);
+    });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * 浏览器内的模拟传输
+ * 将客户端事件交给 MockRealtimeBackend，异步回送服务端事件，行为与 WebSocket 一致
+ */
+
+import type { RealtimeTransport, TransportCloseEvent, TransportFactory, TransportReadyState } from '../services/transport';
+import { MockRealtimeBackend, MockScenario } from './mockBackend';
+
+export class MockTransport implements RealtimeTransport {
+  readyState: TransportReadyState = 'connecting';
+  readonly bufferedAmount = 0;
+
+  onopen: (() => void) | null = null;
+  onmessage: ((data: unknown) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: ((event: TransportCloseEvent) => void) | null = null;
+
+  private backend: MockRealtimeBackend;
+
+  constructor(scenario: MockScenario) {
+    this.backend = new MockRealtimeBackend(scenario, {
+      send: (event) => this.deliver(JSON.stringify(event)),
+      close: (code, reason) => this.close(code, reason),
+    });
+
+    // 模拟异步建立连接
+    setTimeout(() => {
+      if (this.readyState !== 'connecting') return;
+      this.readyState = 'open';
+      this.onopen?.();
+      this.backend.start();
+    }, 0);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== 'open') {
+      throw new Error('MockTransport 未连接');
+    }
+    setTimeout(() => this.backend.handleMessage(data), 0);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === 'closing' || this.readyState === 'closed') return;
+    this.readyState = 'closing';
+    this.backend.stop();
+    // 在已排队的消息之后触发关闭
+    setTimeout(() => {
+      this.readyState = 'closed';
+      this.onclose?.({ code, reason });
+    }, 0);
+  }
+
+  private deliver(data: string): void {
+    setTimeout(() => {
+      if (this.readyState === 'open') {
+        this.onmessage?.(data);
+      }
+    }, 0);
+  }
+}
+
+/**
+ * 创建使用指定场景的模拟传输工厂（忽略连接地址）
+ */
+export function createMockTransport(scenario: MockScenario): TransportFactory {
+  return () => new MockTransport(scenario);
+}
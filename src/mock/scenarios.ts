@@ -0,0 +1,15 @@
+/**
+ * 内置模拟场景
+ * 场景文件同时供本地模拟服务器使用：npm run mock-server -- --scenario <name>
+ */
+
+import type { MockScenario } from './mockBackend';
+import basic from './scenarios/basic.json';
+import toolCall from './scenarios/tool-call.json';
+import errors from './scenarios/errors.json';
+
+export const MOCK_SCENARIOS = [basic, toolCall, errors] as MockScenario[];
+
+export function getMockScenario(name: string): MockScenario | undefined {
+  return MOCK_SCENARIOS.find((scenario) => scenario.name === name);
+}
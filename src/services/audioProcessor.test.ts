@@ -0,0 +1,100 @@
+import { AudioProcessor } from './audioProcessor';
+import type { PlayerCommand } from './audioWorklets';
+
+// 只接受设备采样率（48kHz）的 AudioContext，模拟拒绝 24kHz 的浏览器
+class FakeAudioContext {
+  static created: FakeAudioContext[] = [];
+  static rejected = 0;
+
+  readonly sampleRate = 48000;
+  readonly destination = {};
+  readonly audioWorklet = { addModule: () => Promise.resolve() };
+  state = 'running';
+  currentTime = 0;
+
+  constructor(options?: { sampleRate?: number }) {
+    if (options?.sampleRate !== undefined && options.sampleRate !== this.sampleRate) {
+      FakeAudioContext.rejected++;
+      throw new DOMException('sample rate is not supported', 'NotSupportedError');
+    }
+    FakeAudioContext.created.push(this);
+  }
+
+  createGain() {
+    return { gain: { value: 1 }, connect: () => {} };
+  }
+
+  close() {
+    this.state = 'closed';
+    return Promise.resolve();
+  }
+}
+
+// 记录发给 pcm16-player 的命令
+class FakeAudioWorkletNode {
+  static commands: PlayerCommand[] = [];
+
+  readonly port = {
+    onmessage: null,
+    postMessage: (command: PlayerCommand) => FakeAudioWorkletNode.commands.push(command),
+  };
+
+  connect() {}
+  disconnect() {}
+}
+
+function toBase64Pcm16(samples: Float32Array): string {
+  const view = new DataView(new ArrayBuffer(samples.length * 2));
+  samples.forEach((s, i) => view.setInt16(i * 2, Math.round(s * 0x7fff), true));
+  return btoa(String.fromCharCode(...Array.from(new Uint8Array(view.buffer))));
+}
+
+describe('AudioProcessor 播放', () => {
+  const originals = {
+    AudioContext: window.AudioContext,
+    AudioWorkletNode: window.AudioWorkletNode,
+    createObjectURL: URL.createObjectURL,
+    revokeObjectURL: URL.revokeObjectURL,
+  };
+  let processor: AudioProcessor;
+
+  beforeEach(() => {
+    FakeAudioContext.created = [];
+    FakeAudioContext.rejected = 0;
+    FakeAudioWorkletNode.commands = [];
+    Object.assign(window, { AudioContext: FakeAudioContext, AudioWorkletNode: FakeAudioWorkletNode });
+    Object.assign(URL, { createObjectURL: () => 'blob:worklet', revokeObjectURL: () => {} });
+  });
+
+  afterEach(() => {
+    processor.destroy();
+    Object.assign(window, { AudioContext: originals.AudioContext, AudioWorkletNode: originals.AudioWorkletNode });
+    Object.assign(URL, { createObjectURL: originals.createObjectURL, revokeObjectURL: originals.revokeObjectURL });
+  });
+
+  it('不支持 24kHz 时回退到设备采样率，TTS 音频升采样后送入播放器', async () => {
+    processor = new AudioProcessor();
+    const samples = Float32Array.from({ length: 4800 }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 1000 * i) / 24000));
+
+    await processor.playAudioChunk(toBase64Pcm16(samples.subarray(0, 2400)), 'item_1');
+    await processor.playAudioChunk(toBase64Pcm16(samples.subarray(2400)), 'item_1');
+
+    expect(FakeAudioContext.rejected).toBe(1);
+    expect(FakeAudioContext.created).toHaveLength(1);
+
+    const pushed = FakeAudioWorkletNode.commands.flatMap((command) => (command.type === 'push' ? [command.samples] : []));
+    expect(pushed).toHaveLength(2);
+    // 48kHz 下长度约为原来的两倍，只差卷积核右侧留到下一块的样本
+    const total = pushed.reduce((sum, chunk) => sum + chunk.length, 0);
+    expect(total).toBeLessThanOrEqual(9600);
+    expect(total).toBeGreaterThan(9600 - 40);
+
+    // 升采样后仍是同一个 1kHz 正弦：每 48 个样本一个周期
+    const output = new Float32Array(total);
+    output.set(pushed[0]);
+    output.set(pushed[1], pushed[0].length);
+    for (let i = 200; i < total - 48; i += 97) {
+      expect(output[i + 48]).toBeCloseTo(output[i], 2);
+    }
+  });
+});
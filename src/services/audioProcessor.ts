@@ -4,41 +4,216 @@
  * 支持 PCM16 24kHz 格式（MiniMax Realtime API 要求）
  */
 
-export interface VADCallbacks {
-  onSpeechStart?: () => void;      // 用户开始说话
-  onSpeechEnd?: () => void;        // 用户停止说话（静音超时）
-  onVolumeChange?: (volume: number) => void;  // 音量变化（0-1）
+import type { LatencyTracker } from './latencyTracker';
+import { createLogger } from './logger';
+import {
+  CAPTURE_PROCESSOR,
+  CaptureFrameMessage,
+  CaptureProcessorOptions,
+  PLAYER_PROCESSOR,
+  PlayerCommand,
+  PlayerEvent,
+  loadAudioWorklets,
+} from './audioWorklets';
+import { ResamplerState, createKernel, createResampler, resample, resetResampler } from './resampler';
+import { VADCallbacks, VADConfig, VADEngine, VADEngineType, VADLevels, VoiceActivityDetector } from './vad';
+import { SpectralVoiceActivityDetector } from './spectralVad';
+import { TimeStretchState, clampPlaybackRate, createTimeStretch, flushTimeStretch, setTimeStretchRate, timeStretch } from './timeStretch';
+
+export type { VADCallbacks, VADConfig, VADEngineType, VADLevels } from './vad';
+
+const log = createLogger('audio');
+
+// 当前（或最近一次）播放的音频项及已实际播放的时长
+export interface PlaybackPosition {
+  itemId: string;
+  playedMs: number;
+}
+
+// 上传方式：持续上传所有音频，或只在检测到说话时上传（附带说话前的预录音频）
+export type CaptureMode = 'continuous' | 'speech';
+
+export interface AudioProcessorOptions {
+  frameMs: number;        // 采集帧长（毫秒），每帧发送一次音频
+  useWorklet: boolean;    // 是否使用 AudioWorklet，不支持时自动回退到 ScriptProcessor
+  vadEngine: VADEngineType;  // 本地 VAD 引擎
+  captureMode: CaptureMode;
+  preRollMs: number;      // 按说话上传时，说话开始前保留并补发的音频时长（毫秒）
+}
+
+export const DEFAULT_AUDIO_PROCESSOR_OPTIONS: AudioProcessorOptions = {
+  frameMs: 40,
+  useWorklet: true,
+  vadEngine: 'rms',
+  captureMode: 'continuous',
+  preRollMs: 300,
+};
+
+// 本次采集的上传统计（毫秒）
+export interface CaptureStats {
+  capturedMs: number;  // 采集到的音频时长
+  uploadedMs: number;  // 实际上传的音频时长
+  savedMs: number;     // 相比持续上传少发送的时长
+}
+
+// 麦克风选择与浏览器音频处理开关，会保存在 localStorage
+export interface MicrophoneSettings {
+  deviceId: string | null;    // null 表示系统默认设备
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export type AudioOutputDevice = AudioInputDevice;
+
+// 播放输出：音量、静音、保持音高的倍速和输出设备
+export interface OutputSettings {
+  volume: number;           // 0-1
+  muted: boolean;
+  playbackRate: number;     // 0.5-2
+  deviceId: string | null;  // null 表示系统默认设备
+}
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  volume: 1,
+  muted: false,
+  playbackRate: 1,
+  deviceId: null,
+};
+
+// AudioContext.setSinkId 尚未进入所有浏览器和 TS 的 DOM 类型
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export interface CaptureCallbacks {
+  onStatsChange?: (stats: CaptureStats) => void;  // 开始/停止上传和停止采集时通知
+  onDevicesChange?: (devices: AudioInputDevice[]) => void;  // 插拔设备后的输入设备列表
+  onInputChange?: (device: AudioInputDevice | null, isFallback: boolean) => void;  // 实际使用的麦克风变化，isFallback 表示所选设备不可用、使用默认设备
+  onCaptureError?: (message: string) => void;  // 采集中切换设备失败
+}
+
+export interface PlaybackCallbacks {
+  onProgress?: (position: PlaybackPosition) => void;  // 播放中定时回报进度
+  onEnded?: () => void;  // 已送入的音频全部播放完（stopPlayback 停止时不触发）
+}
+
+// 播放进度回报间隔（毫秒）
+const PROGRESS_INTERVAL = 100;
+
+// 已开始播放的音频（24kHz），供 VAD 判断麦克风里的声音是否为回声
+interface EchoReferenceChunk {
+  startTime: number;  // AudioContext 时间
+  data: Float32Array;
+}
+
+// 回声参考保留的时长（秒）
+const ECHO_REFERENCE_RETENTION = 2;
+
+const MICROPHONE_STORAGE_KEY = 'minimax-realtime-microphone';
+
+function loadMicrophoneSettings(): MicrophoneSettings {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(MICROPHONE_STORAGE_KEY) : null;
+    return saved ? { ...DEFAULT_MICROPHONE_SETTINGS, ...JSON.parse(saved) } : { ...DEFAULT_MICROPHONE_SETTINGS };
+  } catch {
+    return { ...DEFAULT_MICROPHONE_SETTINGS };
+  }
+}
+
+function saveMicrophoneSettings(settings: MicrophoneSettings): void {
+  try {
+    localStorage.setItem(MICROPHONE_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // 隐私模式下无法保存，仅本次生效
+  }
+}
+
+interface PlaybackChunk {
+  data: Float32Array;
+  itemId: string | null;
+  rate: number;  // 变速倍率，播放 1 秒对应原音频 rate 秒
 }
 
 export class AudioProcessor {
   private audioContext: AudioContext | null = null;
   private mediaStream: MediaStream | null = null;
   private sourceNode: MediaStreamAudioSourceNode | null = null;
-  private processorNode: ScriptProcessorNode | null = null;
+  private processorNode: ScriptProcessorNode | AudioWorkletNode | null = null;
+  private options: AudioProcessorOptions;
+  private workletReady: Promise<boolean> | null = null;  // 当前 AudioContext 上的处理器是否可用
+
+  // 麦克风设备
+  private microphone: MicrophoneSettings = loadMicrophoneSettings();
+  private inputSwitch: Promise<void> = Promise.resolve();  // 串行执行设备切换
+  private watchingDevices = false;
+
+  // 播放输出
+  private output: OutputSettings = { ...DEFAULT_OUTPUT_SETTINGS };
+  private outputGain: GainNode | null = null;
+  private stretcher: TimeStretchState | null = null;  // 非 1 倍速时的变速状态
+  private stretchItemId: string | null = null;
 
   // 播放相关
-  private playbackQueue: Float32Array[] = [];
+  private playbackQueue: PlaybackChunk[] = [];
   private isPlaying = false;
   private nextPlayTime = 0;
   private currentSource: AudioBufferSourceNode | null = null;
 
+  // Worklet 播放器
+  private playerNode: AudioWorkletNode | null = null;
+  private playerReady: Promise<AudioWorkletNode | null> | null = null;
+  private playerChunks = new Map<number, { itemId: string | null; duration: number; rate: number; data: Float32Array }>();  // 已送入播放器、未播完的块
+  private nextChunkId = 1;
+  private pendingChunks = 0;       // 已解码、等待送入播放器的块
+  private playbackResampler: ResamplerState | null = null;  // AudioContext 不是 24kHz 时，TTS 音频升采样
+  private playbackGeneration = 0;  // stopPlayback 时递增，丢弃停止前仍在等待的块
+
+  // 播放进度（按音频项累计实际播放的时长）
+  private positionItemId: string | null = null;
+  private positionPlayedMs = 0;  // 已播放完成的块的总时长
+  private currentChunk: { itemId: string | null; startTime: number; duration: number; rate: number } | null = null;
+  private playbackCallbacks: PlaybackCallbacks = {};
+  private progressTimer: ReturnType<typeof setInterval> | null = null;
+
+  // 延迟打点
+  private latency: LatencyTracker | null = null;
+  private markSpeechEnd = true;  // 是否由本地 VAD 标记说话结束（服务端 VAD 模式下由服务端事件标记）
+
   // 采集回调
   private onAudioData: ((base64: string) => void) | null = null;
+  private captureCallbacks: CaptureCallbacks = {};
+
+  // 按说话上传
+  private preRoll: { audio: string; ms: number }[] = [];  // 说话开始前的音频帧
+  private preRollBufferedMs = 0;
+  private isUploading = false;   // 说话中，帧直接上传
+  private capturedMs = 0;
+  private uploadedMs = 0;
 
   // VAD 相关
+  private vad: VADEngine;
   private vadCallbacks: VADCallbacks = {};
-  private isSpeaking = false;           // 当前是否在说话
-  private silenceStartTime = 0;         // 静音开始时间
-  private readonly SILENCE_THRESHOLD = 0.01;  // 静音阈值
-  private readonly SILENCE_DURATION = 1500;   // 静音持续时间（毫秒）触发结束
-  private readonly SPEECH_THRESHOLD = 0.02;   // 说话阈值（比静音阈值略高，避免误触发）
-  private silenceTimer: NodeJS.Timeout | null = null;
+  private echoReference: EchoReferenceChunk[] = [];
 
   // 采样率（MiniMax 要求 24kHz）
   private readonly SAMPLE_RATE = 24000;
 
-  constructor() {
-    // 延迟初始化，需要用户交互后才能创建 AudioContext
+  constructor(options: Partial<AudioProcessorOptions> = {}, vadConfig: Partial<VADConfig> = {}) {
+    // AudioContext 延迟初始化，需要用户交互后才能创建
+    this.options = { ...DEFAULT_AUDIO_PROCESSOR_OPTIONS, ...options };
+    this.options.frameMs = Math.min(Math.max(this.options.frameMs, 10), 200);
+    this.vad = this.createVADEngine(this.options.vadEngine, vadConfig);
   }
 
   /**
@@ -48,6 +223,96 @@ export class AudioProcessor {
     this.vadCallbacks = callbacks;
   }
 
+  /**
+   * 设置采集上传回调
+   */
+  setCaptureCallbacks(callbacks: CaptureCallbacks): void {
+    this.captureCallbacks = callbacks;
+  }
+
+  /**
+   * 设置播放进度回调
+   */
+  setPlaybackCallbacks(callbacks: PlaybackCallbacks): void {
+    this.playbackCallbacks = callbacks;
+  }
+
+  /**
+   * 切换 VAD 引擎，保留参数和回调；采集中切换时重新测量环境噪声
+   */
+  setVADEngine(type: VADEngineType): void {
+    if (type === this.vad.type) return;
+    this.vad = this.createVADEngine(type, this.vad.getConfig());
+    log.info(`🔀 VAD 引擎切换为 ${type}`);
+    if (this.processorNode) {
+      this.vad.calibrate();
+    } else {
+      this.vadCallbacks.onLevelsChange?.(this.vad.getLevels());
+    }
+  }
+
+  getVADEngine(): VADEngineType {
+    return this.vad.type;
+  }
+
+  private createVADEngine(type: VADEngineType, config: Partial<VADConfig>): VADEngine {
+    const engine = type === 'spectral'
+      ? new SpectralVoiceActivityDetector(config)
+      : new VoiceActivityDetector(config);
+    // 外部回调在触发时读取，setVADCallbacks 后无需重新绑定
+    engine.setCallbacks({
+      onSpeechStart: () => {
+        this.vadCallbacks.onSpeechStart?.();
+        // 在外部回调之后补发预录音频，避免打断时 clearAudioBuffer 清掉它
+        this.startUpload();
+      },
+      onSpeechEnd: () => {
+        if (this.markSpeechEnd) {
+          this.latency?.mark('speech_end');
+        }
+        this.vadCallbacks.onSpeechEnd?.();
+        this.stopUpload();
+      },
+      onVolumeChange: (volume) => this.vadCallbacks.onVolumeChange?.(volume),
+      onLevelsChange: (levels) => this.vadCallbacks.onLevelsChange?.(levels),
+    });
+    return engine;
+  }
+
+  /**
+   * 更新 VAD 参数（立即生效）
+   */
+  setVADConfig(config: Partial<VADConfig>): void {
+    this.vad.setConfig(config);
+  }
+
+  getVADConfig(): VADConfig {
+    return this.vad.getConfig();
+  }
+
+  /**
+   * 当前生效的 VAD 阈值和噪声底
+   */
+  getVADLevels(): VADLevels {
+    return this.vad.getLevels();
+  }
+
+  /**
+   * 重新测量环境噪声（测量期间请保持安静）
+   */
+  calibrateVAD(durationMs?: number): void {
+    this.vad.calibrate(durationMs);
+  }
+
+  /**
+   * 设置延迟统计
+   * @param markSpeechEnd 是否在本地 VAD 检测到说话结束时打点
+   */
+  setLatencyTracker(tracker: LatencyTracker | null, markSpeechEnd = true): void {
+    this.latency = tracker;
+    this.markSpeechEnd = markSpeechEnd;
+  }
+
   // ==================== 音频采集 ====================
 
   /**
@@ -56,75 +321,120 @@ export class AudioProcessor {
    */
   async startCapture(onAudioData: (base64: string) => void): Promise<void> {
     this.onAudioData = onAudioData;
+    this.clearPreRoll();
+    this.isUploading = false;
+    this.capturedMs = 0;
+    this.uploadedMs = 0;
 
+    let stream: MediaStream | null = null;
     try {
       // 获取麦克风权限
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          channelCount: 1,
-          sampleRate: this.SAMPLE_RATE,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      });
+      stream = await this.openInputStream();
+      this.watchDevices();
 
-      // 创建音频上下文
-      this.audioContext = new AudioContext({ sampleRate: this.SAMPLE_RATE });
+      // 创建音频上下文（与播放共用）
+      const context = this.ensureAudioContext();
 
       // 如果实际采样率与目标不同，需要重采样
-      if (this.audioContext.sampleRate !== this.SAMPLE_RATE) {
-        console.warn(
-          `⚠️ 浏览器采样率 ${this.audioContext.sampleRate}Hz，需要重采样到 ${this.SAMPLE_RATE}Hz`
+      if (context.sampleRate !== this.SAMPLE_RATE) {
+        log.warn(
+          `⚠️ 浏览器采样率 ${context.sampleRate}Hz，需要重采样到 ${this.SAMPLE_RATE}Hz`
         );
       }
 
-      // 创建音频源节点
-      this.sourceNode = this.audioContext.createMediaStreamSource(this.mediaStream);
+      const useWorklet = await this.ensureWorklets();
+      this.processorNode = useWorklet
+        ? this.createCaptureWorklet(context)
+        : this.createCaptureScriptProcessor(context);
 
-      // 使用 ScriptProcessor 处理音频（兼容性更好）
-      // 注意：ScriptProcessor 已废弃，但 AudioWorklet 需要额外配置
-      const bufferSize = 4096;
-      this.processorNode = this.audioContext.createScriptProcessor(bufferSize, 1, 1);
+      // 连接节点（处理器不输出声音，连接到 destination 以保证持续处理）
+      this.attachInputStream(stream);
+      this.processorNode.connect(context.destination);
 
-      this.processorNode.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-
-        // 如果需要重采样
-        let processedData: Float32Array;
-        if (this.audioContext!.sampleRate !== this.SAMPLE_RATE) {
-          processedData = this.resample(inputData, this.audioContext!.sampleRate, this.SAMPLE_RATE);
-        } else {
-          processedData = inputData;
-        }
-
-        // VAD 检测
-        this.processVAD(processedData);
-
-        // 转换为 Base64 PCM16
-        const base64 = this.float32ToBase64PCM16(processedData);
-        this.onAudioData?.(base64);
-      };
-
-      // 连接节点
-      this.sourceNode.connect(this.processorNode);
-      this.processorNode.connect(this.audioContext.destination);
-
-      console.log('🎤 音频采集已启动', {
-        sampleRate: this.audioContext.sampleRate,
+      log.info('🎤 音频采集已启动', {
+        sampleRate: context.sampleRate,
         targetRate: this.SAMPLE_RATE,
+        pipeline: useWorklet ? 'AudioWorklet' : 'ScriptProcessor',
+        frameMs: useWorklet ? this.options.frameMs : Math.round((4096 / context.sampleRate) * 1000),
       });
+
+      // 开始时测量环境噪声，确定 VAD 阈值
+      this.vad.calibrate();
     } catch (error: any) {
-      console.error('❌ 启动音频采集失败:', error);
+      if (stream && this.mediaStream !== stream) {
+        stream.getTracks().forEach((track) => track.stop());
+      }
+      log.error('❌ 启动音频采集失败:', error);
       throw new Error('无法访问麦克风: ' + error.message);
     }
   }
 
+  /**
+   * AudioWorklet 采集：重采样和 PCM16 编码在音频线程完成，主线程只做 VAD 和发送
+   */
+  private createCaptureWorklet(context: AudioContext): AudioWorkletNode {
+    const processorOptions: CaptureProcessorOptions = {
+      targetSampleRate: this.SAMPLE_RATE,
+      frameSamples: Math.round((this.SAMPLE_RATE * this.options.frameMs) / 1000),
+      kernel: context.sampleRate !== this.SAMPLE_RATE ? createKernel(context.sampleRate, this.SAMPLE_RATE) : null,
+    };
+    const node = new AudioWorkletNode(context, CAPTURE_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      processorOptions,
+    });
+    node.port.onmessage = (event: MessageEvent<CaptureFrameMessage>) => {
+      if (this.processorNode !== node) return;
+      this.processVAD(event.data.samples);
+      this.handleCapturedFrame(event.data.audio, (event.data.samples.length / this.SAMPLE_RATE) * 1000);
+    };
+    return node;
+  }
+
+  /**
+   * ScriptProcessor 采集（不支持 AudioWorklet 时的回退，在主线程处理，帧长约 170ms）
+   */
+  private createCaptureScriptProcessor(context: AudioContext): ScriptProcessorNode {
+    const bufferSize = 4096;
+    const node = context.createScriptProcessor(bufferSize, 1, 1);
+    let resampler = context.sampleRate !== this.SAMPLE_RATE
+      ? createResampler(context.sampleRate, this.SAMPLE_RATE)
+      : null;
+
+    node.onaudioprocess = (e) => {
+      const inputData = e.inputBuffer.getChannelData(0);
+
+      // 如果需要重采样（状态跨帧保留）
+      let processedData: Float32Array;
+      if (resampler) {
+        const result = resample(resampler, inputData);
+        resampler = result.state;
+        processedData = result.output;
+      } else {
+        processedData = inputData;
+      }
+
+      // VAD 检测
+      this.processVAD(processedData);
+
+      // 转换为 Base64 PCM16
+      const base64 = this.float32ToBase64PCM16(processedData);
+      this.handleCapturedFrame(base64, (processedData.length / this.SAMPLE_RATE) * 1000);
+    };
+    return node;
+  }
+
   /**
    * 停止采集麦克风音频
    */
   stopCapture(): void {
     if (this.processorNode) {
+      if (this.processorNode instanceof ScriptProcessorNode) {
+        this.processorNode.onaudioprocess = null;
+      } else {
+        this.processorNode.port.onmessage = null;
+      }
       this.processorNode.disconnect();
       this.processorNode = null;
     }
@@ -135,93 +445,319 @@ export class AudioProcessor {
     }
 
     if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach((track) => track.stop());
+      this.mediaStream.getTracks().forEach((track) => {
+        track.onended = null;
+        track.stop();
+      });
       this.mediaStream = null;
     }
 
     // 重置 VAD 状态
     this.resetVADState();
 
+    if (this.onAudioData && this.options.captureMode === 'speech') {
+      const stats = this.getCaptureStats();
+      log.info(`📉 按说话上传：采集 ${(stats.capturedMs / 1000).toFixed(1)}s，上传 ${(stats.uploadedMs / 1000).toFixed(1)}s，节省 ${(stats.savedMs / 1000).toFixed(1)}s`);
+      this.captureCallbacks.onStatsChange?.(stats);
+    }
+    this.clearPreRoll();
     this.onAudioData = null;
-    console.log('🎤 音频采集已停止');
+    log.info('🎤 音频采集已停止');
   }
 
-  // ==================== VAD 语音活动检测 ====================
+  // ==================== 麦克风设备 ====================
+
+  getMicrophoneSettings(): MicrophoneSettings {
+    return { ...this.microphone };
+  }
 
   /**
-   * 处理 VAD 检测
+   * 更新麦克风设备或音频处理开关并保存；采集中立即切换到新设置，不中断会话
    */
-  private processVAD(audioData: Float32Array): void {
-    // 计算 RMS 音量
-    let sum = 0;
-    for (let i = 0; i < audioData.length; i++) {
-      sum += audioData[i] * audioData[i];
-    }
-    const rms = Math.sqrt(sum / audioData.length);
+  setMicrophone(settings: Partial<MicrophoneSettings>): Promise<void> {
+    this.microphone = { ...this.microphone, ...settings };
+    saveMicrophoneSettings(this.microphone);
+    return this.switchInput('设置已更新');
+  }
 
-    // 通知音量变化
-    this.vadCallbacks.onVolumeChange?.(Math.min(rms * 10, 1));
+  /**
+   * 列出音频输入设备（授权麦克风前浏览器不提供设备名称）
+   */
+  async listInputDevices(): Promise<AudioInputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    this.watchDevices();
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === 'audioinput' && device.deviceId !== 'default' && device.deviceId !== 'communications')
+      .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `麦克风 ${index + 1}` }));
+  }
 
-    const now = Date.now();
+  /**
+   * 当前采集使用的设备，未在采集时返回 null
+   */
+  getActiveInput(): AudioInputDevice | null {
+    const track = this.mediaStream?.getAudioTracks()[0];
+    if (!track) return null;
+    return { deviceId: track.getSettings().deviceId || '', label: track.label };
+  }
 
-    if (rms > this.SPEECH_THRESHOLD) {
-      // 检测到声音
-      if (!this.isSpeaking) {
-        // 开始说话
-        this.isSpeaking = true;
-        console.log('🗣️ 检测到说话开始');
-        this.vadCallbacks.onSpeechStart?.();
-      }
-      // 清除静音计时器
-      if (this.silenceTimer) {
-        clearTimeout(this.silenceTimer);
-        this.silenceTimer = null;
-      }
-      this.silenceStartTime = 0;
-    } else if (rms < this.SILENCE_THRESHOLD) {
-      // 静音
-      if (this.isSpeaking) {
-        // 正在说话中检测到静音
-        if (this.silenceStartTime === 0) {
-          this.silenceStartTime = now;
+  private getAudioConstraints(deviceId: string | null): MediaTrackConstraints {
+    const { echoCancellation, noiseSuppression, autoGainControl } = this.microphone;
+    return {
+      channelCount: 1,
+      sampleRate: this.SAMPLE_RATE,
+      echoCancellation,
+      noiseSuppression,
+      autoGainControl,
+      ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    };
+  }
+
+  /**
+   * 打开所选麦克风，设备不存在（已拔出）时回退到默认设备
+   */
+  private async openInputStream(): Promise<MediaStream> {
+    const { deviceId } = this.microphone;
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: this.getAudioConstraints(deviceId) });
+    } catch (error: any) {
+      if (!deviceId || (error?.name !== 'OverconstrainedError' && error?.name !== 'NotFoundError')) throw error;
+      log.warn('⚠️ 所选麦克风不可用，使用默认设备');
+      return navigator.mediaDevices.getUserMedia({ audio: this.getAudioConstraints(null) });
+    }
+  }
+
+  /**
+   * 将新的输入流接到采集处理器上，替换并关闭旧的输入流
+   */
+  private attachInputStream(stream: MediaStream): void {
+    const context = this.audioContext!;
+    const previousSource = this.sourceNode;
+    const previousStream = this.mediaStream;
+
+    this.mediaStream = stream;
+    this.sourceNode = context.createMediaStreamSource(stream);
+    if (this.processorNode) {
+      this.sourceNode.connect(this.processorNode);
+    }
+    previousSource?.disconnect();
+    previousStream?.getTracks().forEach((track) => {
+      track.onended = null;
+      track.stop();
+    });
+
+    // 设备被拔出时轨道结束，回退到默认设备继续采集
+    const track = stream.getAudioTracks()[0];
+    if (track) {
+      track.onended = () => {
+        if (this.mediaStream === stream) {
+          log.warn('⚠️ 麦克风已断开');
+          this.switchInput('麦克风已断开');
         }
+      };
+    }
+
+    const input = this.getActiveInput();
+    const isFallback = !!this.microphone.deviceId && input?.deviceId !== this.microphone.deviceId;
+    this.captureCallbacks.onInputChange?.(input, isFallback);
+  }
 
-        // 启动静音计时器（如果还没有）
-        if (!this.silenceTimer) {
-          this.silenceTimer = setTimeout(() => {
-            if (this.isSpeaking && this.silenceStartTime > 0) {
-              const silenceDuration = Date.now() - this.silenceStartTime;
-              if (silenceDuration >= this.SILENCE_DURATION) {
-                console.log('🤫 检测到说话结束（静音超时）');
-                this.isSpeaking = false;
-                this.silenceStartTime = 0;
-                this.vadCallbacks.onSpeechEnd?.();
-              }
-            }
-            this.silenceTimer = null;
-          }, this.SILENCE_DURATION);
+  /**
+   * 采集中重新打开麦克风，未在采集时什么也不做
+   */
+  private switchInput(reason: string): Promise<void> {
+    this.inputSwitch = this.inputSwitch.then(async () => {
+      if (!this.processorNode) return;
+      try {
+        const stream = await this.openInputStream();
+        // 打开期间已停止采集
+        if (!this.processorNode) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
         }
+        this.attachInputStream(stream);
+        log.info(`🎙️ 已切换麦克风（${reason}）: ${stream.getAudioTracks()[0]?.label || '默认设备'}`);
+      } catch (error: any) {
+        log.error('❌ 切换麦克风失败:', error);
+        this.captureCallbacks.onCaptureError?.('切换麦克风失败: ' + error.message);
       }
+    });
+    return this.inputSwitch;
+  }
+
+  /**
+   * 监听设备插拔
+   */
+  private watchDevices(): void {
+    if (this.watchingDevices || !navigator.mediaDevices?.addEventListener) return;
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    this.watchingDevices = true;
+  }
+
+  /**
+   * 设备插拔：当前设备已断开时回退到默认设备；所选设备重新接入时切回
+   */
+  private handleDeviceChange = async (): Promise<void> => {
+    const devices = await this.listInputDevices();
+    this.captureCallbacks.onDevicesChange?.(devices);
+    if (!this.processorNode) return;
+
+    const track = this.mediaStream?.getAudioTracks()[0];
+    const preferred = this.microphone.deviceId;
+    if (!track || track.readyState === 'ended') {
+      this.switchInput('麦克风已断开');
+    } else if (preferred && this.getActiveInput()?.deviceId !== preferred && devices.some((d) => d.deviceId === preferred)) {
+      this.switchInput('所选麦克风已重新连接');
+    }
+  };
+
+  // ==================== 按说话上传 ====================
+
+  /**
+   * 切换上传方式，采集中切换立即生效
+   */
+  setCaptureMode(mode: CaptureMode, preRollMs = this.options.preRollMs): void {
+    this.options.captureMode = mode;
+    this.options.preRollMs = Math.max(0, preRollMs);
+    this.clearPreRoll();
+    // 说话中切换到按说话上传时继续上传当前这段
+    this.isUploading = mode === 'speech' && this.vad.getIsSpeaking();
+  }
+
+  getCaptureMode(): CaptureMode {
+    return this.options.captureMode;
+  }
+
+  getCaptureStats(): CaptureStats {
+    return {
+      capturedMs: Math.round(this.capturedMs),
+      uploadedMs: Math.round(this.uploadedMs),
+      savedMs: Math.round(this.capturedMs - this.uploadedMs),
+    };
+  }
+
+  /**
+   * 采集到一帧：持续上传模式或说话中直接上传，否则放入预录缓冲
+   */
+  private handleCapturedFrame(audio: string, ms: number): void {
+    this.capturedMs += ms;
+    if (this.options.captureMode === 'continuous' || this.isUploading) {
+      this.uploadFrame(audio, ms);
+      return;
+    }
+    this.preRoll.push({ audio, ms });
+    this.preRollBufferedMs += ms;
+    // 只保留最近 preRollMs 的音频
+    while (this.preRoll.length > 0 && this.preRollBufferedMs - this.preRoll[0].ms >= this.options.preRollMs) {
+      this.preRollBufferedMs -= this.preRoll.shift()!.ms;
     }
   }
 
+  private uploadFrame(audio: string, ms: number): void {
+    this.uploadedMs += ms;
+    this.onAudioData?.(audio);
+  }
+
+  /**
+   * 检测到说话开始：先补发预录音频，之后的帧直接上传
+   */
+  private startUpload(): void {
+    if (this.options.captureMode !== 'speech' || this.isUploading || !this.onAudioData) return;
+    this.isUploading = true;
+    const frames = this.preRoll;
+    this.clearPreRoll();
+    frames.forEach((frame) => this.uploadFrame(frame.audio, frame.ms));
+    this.captureCallbacks.onStatsChange?.(this.getCaptureStats());
+  }
+
+  /**
+   * 检测到说话结束：停止上传（此时已上传了 VAD 静音时长的尾音）
+   */
+  private stopUpload(): void {
+    if (!this.isUploading) return;
+    this.isUploading = false;
+    this.captureCallbacks.onStatsChange?.(this.getCaptureStats());
+  }
+
+  private clearPreRoll(): void {
+    this.preRoll = [];
+    this.preRollBufferedMs = 0;
+  }
+
+  // ==================== VAD 语音活动检测 ====================
+
+  /**
+   * 处理 VAD 检测
+   */
+  private processVAD(audioData: Float32Array): void {
+    const frameMs = (audioData.length / this.SAMPLE_RATE) * 1000;
+    const reference = this.vad.referenceMs > 0
+      ? this.getEchoReference(audioData.length + Math.round((this.SAMPLE_RATE * this.vad.referenceMs) / 1000))
+      : null;
+    this.vad.process(audioData, frameMs, reference);
+  }
+
+  /**
+   * 取截至当前时刻、指定样本数的播放内容（与刚采集到的帧末尾对齐）
+   * 这段时间内没有播放时返回 null
+   */
+  private getEchoReference(length: number): Float32Array | null {
+    if (!this.audioContext || this.echoReference.length === 0) return null;
+    const end = this.audioContext.currentTime;
+    const start = end - length / this.SAMPLE_RATE;
+    let reference: Float32Array | null = null;
+
+    this.echoReference.forEach((chunk) => {
+      const chunkEnd = chunk.startTime + chunk.data.length / this.SAMPLE_RATE;
+      if (chunkEnd <= start || chunk.startTime >= end) return;
+      reference = reference || new Float32Array(length);
+      const offset = Math.round((chunk.startTime - start) * this.SAMPLE_RATE);
+      const from = Math.max(0, -offset);
+      const to = Math.min(chunk.data.length, length - offset);
+      if (to > from) {
+        reference.set(chunk.data.subarray(from, to), offset + from);
+      }
+    });
+    return reference;
+  }
+
+  /**
+   * 记录开始播放的音频块，并丢弃过旧的记录
+   */
+  private addEchoReference(startTime: number, data: Float32Array): void {
+    const oldest = startTime - ECHO_REFERENCE_RETENTION;
+    this.echoReference = this.echoReference.filter(
+      (chunk) => chunk.startTime + chunk.data.length / this.SAMPLE_RATE > oldest
+    );
+    this.echoReference.push({ startTime, data });
+  }
+
+  /**
+   * 停止播放时截断参考：已播出的部分仍可能在之后被麦克风录到，未播出的部分丢弃
+   */
+  private truncateEchoReference(): void {
+    const now = this.audioContext?.currentTime || 0;
+    this.echoReference = this.echoReference
+      .filter((chunk) => chunk.startTime < now)
+      .map((chunk) => ({
+        startTime: chunk.startTime,
+        data: chunk.data.subarray(0, Math.round((now - chunk.startTime) * this.SAMPLE_RATE)),
+      }));
+  }
+
   /**
    * 重置 VAD 状态
    */
   resetVADState(): void {
-    this.isSpeaking = false;
-    this.silenceStartTime = 0;
-    if (this.silenceTimer) {
-      clearTimeout(this.silenceTimer);
-      this.silenceTimer = null;
-    }
+    this.vad.reset();
+    this.stopUpload();
   }
 
   /**
    * 获取当前是否在说话
    */
   getIsSpeaking(): boolean {
-    return this.isSpeaking;
+    return this.vad.getIsSpeaking();
   }
 
   // ==================== 音频播放 ====================
@@ -229,41 +765,184 @@ export class AudioProcessor {
   /**
    * 播放音频块
    * @param base64 Base64 编码的 PCM16 音频数据
+   * @param itemId 所属的对话项 ID，用于统计实际播放进度
    */
-  async playAudioChunk(base64: string): Promise<void> {
-    // 确保 AudioContext 存在
-    if (!this.audioContext) {
-      this.audioContext = new AudioContext({ sampleRate: this.SAMPLE_RATE });
+  async playAudioChunk(base64: string, itemId?: string): Promise<void> {
+    // 解码并变速（同步完成，保证多个块的顺序）
+    const float32Data = this.stretchForPlayback(this.base64PCM16ToFloat32(base64), itemId || null);
+    const rate = this.stretcher ? this.stretcher.rate : 1;
+    // 变速缓冲还不够一帧
+    if (float32Data.length === 0) return;
+    return this.enqueuePlayback(float32Data, itemId || null, rate);
+  }
+
+  /**
+   * 一段音频（如一次回复）结束时调用，输出变速缓冲中剩余的音频；1 倍速时无需调用
+   */
+  flushPlayback(): Promise<void> {
+    if (!this.stretcher) return Promise.resolve();
+    const { rate } = this.stretcher;
+    const { output } = flushTimeStretch(this.stretcher);
+    const itemId = this.stretchItemId;
+    this.stretcher = null;
+    this.stretchItemId = null;
+    return output.length > 0 ? this.enqueuePlayback(output, itemId, rate) : Promise.resolve();
+  }
+
+  /**
+   * 非 1 倍速时做保持音高的变速；切换到新的音频项时先输出上一项剩余的音频
+   */
+  private stretchForPlayback(data: Float32Array, itemId: string | null): Float32Array {
+    if (this.stretcher && itemId !== this.stretchItemId) {
+      this.flushPlayback();
+    }
+    if (!this.stretcher) {
+      if (this.output.playbackRate === 1) return data;
+      this.stretcher = createTimeStretch(this.output.playbackRate);
+      this.stretchItemId = itemId;
     }
+    const result = timeStretch(this.stretcher, data);
+    this.stretcher = result.state;
+    return result.output;
+  }
+
+  /**
+   * 将（已变速的）音频块送入播放器或回退播放队列
+   */
+  private async enqueuePlayback(float32Data: Float32Array, itemId: string | null, rate: number): Promise<void> {
+    // 确保 AudioContext 存在
+    const context = this.ensureAudioContext();
+    const generation = this.playbackGeneration;
+    this.isPlaying = true;
+    this.pendingChunks++;
 
-    // 确保 AudioContext 在运行状态
-    if (this.audioContext.state === 'suspended') {
-      await this.audioContext.resume();
+    let player: AudioWorkletNode | null;
+    try {
+      // 确保 AudioContext 在运行状态
+      if (context.state === 'suspended') {
+        await context.resume();
+      }
+      player = await this.ensurePlayer();
+    } finally {
+      if (generation === this.playbackGeneration) {
+        this.pendingChunks--;
+      }
     }
+    // 等待期间已调用 stopPlayback 或切换了 AudioContext
+    if (generation !== this.playbackGeneration || this.audioContext !== context) return;
+    this.isPlaying = true;
+    this.startProgress();
 
-    // 解码 Base64 PCM16 数据
-    const float32Data = this.base64PCM16ToFloat32(base64);
+    if (player) {
+      this.pushToPlayer(player, float32Data, itemId, rate);
+      return;
+    }
 
     // 添加到播放队列
-    this.playbackQueue.push(float32Data);
+    this.playbackQueue.push({ data: float32Data, itemId, rate });
 
     // 如果没有在播放，开始播放
-    if (!this.isPlaying) {
+    if (!this.currentSource) {
       this.playNextChunk();
     }
   }
 
   /**
-   * 播放队列中的下一个音频块
+   * 创建（或复用）Worklet 播放器，不支持时返回 null
+   */
+  private ensurePlayer(): Promise<AudioWorkletNode | null> {
+    if (!this.playerReady) {
+      const context = this.audioContext!;
+      this.playerReady = this.ensureWorklets().then((ok) => {
+        if (!ok || this.audioContext !== context) return null;
+        const node = new AudioWorkletNode(context, PLAYER_PROCESSOR, {
+          numberOfInputs: 0,
+          numberOfOutputs: 1,
+          outputChannelCount: [1],
+        });
+        node.port.onmessage = (event: MessageEvent<PlayerEvent>) => this.handlePlayerEvent(event.data);
+        node.connect(this.outputGain!);
+        this.playerNode = node;
+        return node;
+      });
+    }
+    return this.playerReady;
+  }
+
+  /**
+   * 送入 Worklet 播放器的环形缓冲（必要时先重采样到 AudioContext 的采样率）
+   */
+  private pushToPlayer(player: AudioWorkletNode, data: Float32Array, itemId: string | null, rate: number): void {
+    const sampleRate = this.audioContext!.sampleRate;
+    let samples = data.slice();  // 送入播放器的缓冲会被转移，data 保留作回声参考
+    if (sampleRate !== this.SAMPLE_RATE) {
+      if (this.playbackResampler?.outputRate !== sampleRate) {
+        this.playbackResampler = createResampler(this.SAMPLE_RATE, sampleRate);
+      }
+      const result = resample(this.playbackResampler, data);
+      this.playbackResampler = result.state;
+      samples = result.output;
+    }
+    const id = this.nextChunkId++;
+    this.playerChunks.set(id, { itemId, duration: data.length / this.SAMPLE_RATE, rate, data });
+    const command: PlayerCommand = { type: 'push', id, samples };
+    player.port.postMessage(command, [samples.buffer]);
+  }
+
+  /**
+   * 播放器回报的进度：块开始 / 结束 / 全部播完
+   * stopPlayback 之后才到达的旧消息按块 ID 忽略
+   */
+  private handlePlayerEvent(event: PlayerEvent): void {
+    const context = this.audioContext;
+    if (!context) return;
+
+    if (event.type === 'drained') {
+      // 播放器排空后又送入了新块时，以新块为准
+      if (event.id !== this.nextChunkId - 1 || this.pendingChunks > 0 || !this.isPlaying) return;
+      this.currentChunk = null;
+      this.latency?.mark('playback_end', performance.now() + (event.time - context.currentTime) * 1000);
+      this.finishPlayback();
+      return;
+    }
+
+    const chunk = this.playerChunks.get(event.id);
+    if (!chunk) return;
+
+    if (event.type === 'started') {
+      // 切换到新的音频项时重新累计进度
+      if (chunk.itemId !== this.positionItemId) {
+        this.positionItemId = chunk.itemId;
+        this.positionPlayedMs = 0;
+      }
+      this.currentChunk = { itemId: chunk.itemId, startTime: event.time, duration: chunk.duration, rate: chunk.rate };
+      this.addEchoReference(event.time, chunk.data);
+      this.latency?.mark('first_audio_played', performance.now() + (event.time - context.currentTime) * 1000);
+    } else {
+      this.playerChunks.delete(event.id);
+      if (chunk.itemId === this.positionItemId) {
+        this.positionPlayedMs += chunk.duration * chunk.rate * 1000;
+      }
+      this.currentChunk = null;
+    }
+  }
+
+  /**
+   * 播放队列中的下一个音频块（ScriptProcessor 回退模式）
    */
   private playNextChunk(): void {
     if (!this.audioContext || this.playbackQueue.length === 0) {
-      this.isPlaying = false;
+      // 还有块在等待送入时保持播放状态
+      if (this.pendingChunks > 0) return;
+      if (this.isPlaying) {
+        this.latency?.mark('playback_end');
+        this.finishPlayback();
+      }
       return;
     }
 
     this.isPlaying = true;
-    const float32Data = this.playbackQueue.shift()!;
+    const { data: float32Data, itemId, rate } = this.playbackQueue.shift()!;
 
     // 创建音频缓冲区
     const audioBuffer = this.audioContext.createBuffer(
@@ -276,20 +955,79 @@ export class AudioProcessor {
     // 创建播放源
     const source = this.audioContext.createBufferSource();
     source.buffer = audioBuffer;
-    source.connect(this.audioContext.destination);
+    source.connect(this.outputGain!);
 
     // 计算播放时间（确保音频块连续播放，无间隙）
     const currentTime = this.audioContext.currentTime;
     const startTime = Math.max(currentTime, this.nextPlayTime);
     this.nextPlayTime = startTime + audioBuffer.duration;
 
+    // 切换到新的音频项时重新累计进度
+    if (itemId !== this.positionItemId) {
+      this.positionItemId = itemId;
+      this.positionPlayedMs = 0;
+    }
+    const chunk = { itemId, startTime, duration: audioBuffer.duration, rate };
+
     source.onended = () => {
       this.currentSource = null;
+      if (this.currentChunk === chunk) {
+        this.positionPlayedMs += chunk.duration * chunk.rate * 1000;
+        this.currentChunk = null;
+      }
       this.playNextChunk();
     };
 
     source.start(startTime);
+    this.addEchoReference(startTime, float32Data);
+    this.latency?.mark('first_audio_played', performance.now() + (startTime - currentTime) * 1000);
     this.currentSource = source;
+    this.currentChunk = chunk;
+  }
+
+  /**
+   * 播放中定时回报进度
+   */
+  private startProgress(): void {
+    if (this.progressTimer) return;
+    this.progressTimer = setInterval(() => {
+      const position = this.getPlaybackPosition();
+      if (position) this.playbackCallbacks.onProgress?.(position);
+    }, PROGRESS_INTERVAL);
+  }
+
+  private stopProgress(): void {
+    if (this.progressTimer) {
+      clearInterval(this.progressTimer);
+      this.progressTimer = null;
+    }
+  }
+
+  /**
+   * 队列中的音频自然播完：回报最终进度后通知播放结束
+   */
+  private finishPlayback(): void {
+    this.isPlaying = false;
+    this.stopProgress();
+    const position = this.getPlaybackPosition();
+    if (position) this.playbackCallbacks.onProgress?.(position);
+    this.playbackCallbacks.onEnded?.();
+  }
+
+  /**
+   * 获取当前（或最近一次）音频项实际播放到的位置
+   * 需在 stopPlayback 之前调用
+   */
+  getPlaybackPosition(): PlaybackPosition | null {
+    if (!this.positionItemId) return null;
+
+    let playedMs = this.positionPlayedMs;
+    if (this.currentChunk && this.audioContext) {
+      const elapsed = this.audioContext.currentTime - this.currentChunk.startTime;
+      // 换算为原音频的时长（变速播放时与实际经过的时间不同）
+      playedMs += Math.min(Math.max(elapsed, 0), this.currentChunk.duration) * this.currentChunk.rate * 1000;
+    }
+    return { itemId: this.positionItemId, playedMs: Math.round(playedMs) };
   }
 
   /**
@@ -306,12 +1044,116 @@ export class AudioProcessor {
       this.currentSource = null;
     }
 
+    // 清空 Worklet 播放器的缓冲
+    if (this.playerNode) {
+      const command: PlayerCommand = { type: 'clear' };
+      this.playerNode.port.postMessage(command);
+    }
+    this.playerChunks.clear();
+    this.truncateEchoReference();
+    this.stretcher = null;
+    this.stretchItemId = null;
+    this.pendingChunks = 0;
+    this.playbackGeneration++;
+    if (this.playbackResampler) {
+      this.playbackResampler = resetResampler(this.playbackResampler);
+    }
+
     // 清空播放队列
     this.playbackQueue = [];
     this.isPlaying = false;
+    this.stopProgress();
     this.nextPlayTime = 0;
+    this.currentChunk = null;
+    this.positionItemId = null;
+    this.positionPlayedMs = 0;
+
+    log.info('🔇 播放已停止');
+  }
+
+  // ==================== 播放输出 ====================
+
+  getOutputSettings(): OutputSettings {
+    return { ...this.output };
+  }
+
+  setVolume(volume: number): void {
+    this.output.volume = Math.min(Math.max(volume, 0), 1);
+    this.updateOutputGain();
+  }
+
+  setMuted(muted: boolean): void {
+    this.output.muted = muted;
+    this.updateOutputGain();
+  }
+
+  /**
+   * 设置播放倍速（0.5-2，保持音高），对之后收到的音频生效
+   */
+  setPlaybackRate(rate: number): void {
+    this.output.playbackRate = clampPlaybackRate(rate);
+    if (this.stretcher) {
+      this.stretcher = setTimeStretchRate(this.stretcher, this.output.playbackRate);
+    }
+  }
+
+  /**
+   * 浏览器是否支持选择输出设备（AudioContext.setSinkId）
+   */
+  isOutputDeviceSupported(): boolean {
+    return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+  }
+
+  /**
+   * 列出音频输出设备
+   */
+  async listOutputDevices(): Promise<AudioOutputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === 'audiooutput' && device.deviceId !== 'default' && device.deviceId !== 'communications')
+      .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `扬声器 ${index + 1}` }));
+  }
+
+  /**
+   * 切换输出设备，null 表示系统默认设备
+   * @returns 不支持或切换失败时返回 false
+   */
+  async setOutputDevice(deviceId: string | null): Promise<boolean> {
+    if (!this.isOutputDeviceSupported()) {
+      log.warn('⚠️ 当前浏览器不支持选择输出设备');
+      return false;
+    }
+    this.output.deviceId = deviceId;
+    if (!this.audioContext) return true;
+    try {
+      await this.applyOutputDevice(this.audioContext, deviceId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
 
-    console.log('🔇 播放已停止');
+  private async applyOutputDevice(context: AudioContext, deviceId: string | null): Promise<void> {
+    const sinkable = context as SinkableAudioContext;
+    if (!sinkable.setSinkId) return;
+    try {
+      await sinkable.setSinkId(deviceId || '');
+      log.info(`🔈 输出设备已切换: ${deviceId || '系统默认'}`);
+    } catch (error) {
+      log.error('❌ 切换输出设备失败:', error);
+      throw error;
+    }
+  }
+
+  private getOutputGainValue(): number {
+    return this.output.muted ? 0 : this.output.volume;
+  }
+
+  private updateOutputGain(): void {
+    if (!this.audioContext || !this.outputGain) return;
+    // 短暂平滑过渡，避免调节音量时出现爆音
+    this.outputGain.gain.setTargetAtTime(this.getOutputGainValue(), this.audioContext.currentTime, 0.02);
   }
 
   /**
@@ -321,6 +1163,56 @@ export class AudioProcessor {
     return this.isPlaying;
   }
 
+  // ==================== AudioContext ====================
+
+  private ensureAudioContext(): AudioContext {
+    if (!this.audioContext || this.audioContext.state === 'closed') {
+      this.audioContext = this.createAudioContext();
+      this.workletReady = null;
+      this.playerReady = null;
+      this.playerNode = null;
+      this.echoReference = [];
+
+      // 播放统一经过输出增益节点
+      this.outputGain = this.audioContext.createGain();
+      this.outputGain.gain.value = this.getOutputGainValue();
+      this.outputGain.connect(this.audioContext.destination);
+      if (this.output.deviceId) {
+        this.applyOutputDevice(this.audioContext, this.output.deviceId).catch(() => {});
+      }
+    }
+    return this.audioContext;
+  }
+
+  /**
+   * 优先使用 24kHz 免去重采样；浏览器不支持该采样率时使用设备默认采样率，采集和播放两端各自重采样
+   */
+  private createAudioContext(): AudioContext {
+    try {
+      return new AudioContext({ sampleRate: this.SAMPLE_RATE });
+    } catch (e) {
+      const context = new AudioContext();
+      log.warn(`⚠️ 不支持 ${this.SAMPLE_RATE}Hz 的 AudioContext，使用设备采样率 ${context.sampleRate}Hz 并重采样`, e);
+      return context;
+    }
+  }
+
+  /**
+   * 在当前 AudioContext 上加载 Worklet 处理器（只加载一次）
+   */
+  private ensureWorklets(): Promise<boolean> {
+    if (!this.options.useWorklet) return Promise.resolve(false);
+    if (!this.workletReady) {
+      this.workletReady = loadAudioWorklets(this.audioContext!).then((ok) => {
+        if (!ok) {
+          log.warn('⚠️ AudioWorklet 不可用，回退到 ScriptProcessor');
+        }
+        return ok;
+      });
+    }
+    return this.workletReady;
+  }
+
   // ==================== 格式转换 ====================
 
   /**
@@ -375,32 +1267,6 @@ export class AudioProcessor {
     return float32;
   }
 
-  /**
-   * 简单的线性重采样
-   */
-  private resample(
-    inputData: Float32Array,
-    inputSampleRate: number,
-    outputSampleRate: number
-  ): Float32Array {
-    const ratio = inputSampleRate / outputSampleRate;
-    const outputLength = Math.round(inputData.length / ratio);
-    const output = new Float32Array(outputLength);
-
-    for (let i = 0; i < outputLength; i++) {
-      const srcIndex = i * ratio;
-      const srcIndexFloor = Math.floor(srcIndex);
-      const srcIndexCeil = Math.min(srcIndexFloor + 1, inputData.length - 1);
-      const fraction = srcIndex - srcIndexFloor;
-
-      // 线性插值
-      output[i] =
-        inputData[srcIndexFloor] * (1 - fraction) + inputData[srcIndexCeil] * fraction;
-    }
-
-    return output;
-  }
-
   // ==================== 资源清理 ====================
 
   /**
@@ -410,11 +1276,25 @@ export class AudioProcessor {
     this.stopCapture();
     this.stopPlayback();
 
+    if (this.watchingDevices) {
+      navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+      this.watchingDevices = false;
+    }
+
+    if (this.playerNode) {
+      this.playerNode.port.onmessage = null;
+      this.playerNode.disconnect();
+      this.playerNode = null;
+    }
+    this.playerReady = null;
+    this.workletReady = null;
+
     if (this.audioContext && this.audioContext.state !== 'closed') {
       this.audioContext.close();
     }
     this.audioContext = null;
+    this.outputGain = null;
 
-    console.log('🧹 AudioProcessor 已销毁');
+    log.info('🧹 AudioProcessor 已销毁');
   }
 }
@@ -0,0 +1,66 @@
+import { CAPTURE_PROCESSOR, CaptureFrameMessage, CaptureProcessorOptions, WORKLET_SOURCE } from './audioWorklets';
+import { createKernel, createResampler, resample } from './resampler';
+
+interface FakeProcessor {
+  port: { postMessage: (message: CaptureFrameMessage) => void };
+  process: (inputs: Float32Array[][]) => boolean;
+}
+
+type ProcessorClass = new (options: { processorOptions: CaptureProcessorOptions }) => FakeProcessor;
+
+// 在模拟的 AudioWorkletGlobalScope 中执行处理器源码，返回注册的处理器类
+function loadProcessors(sampleRate: number): Map<string, ProcessorClass> {
+  const processors = new Map<string, ProcessorClass>();
+  class AudioWorkletProcessor {
+    port = { postMessage: (message: CaptureFrameMessage) => {} };
+  }
+  const registerProcessor = (name: string, processor: ProcessorClass) => processors.set(name, processor);
+  // eslint-disable-next-line no-new-func
+  new Function('AudioWorkletProcessor', 'registerProcessor', 'sampleRate', 'currentTime', WORKLET_SOURCE)(
+    AudioWorkletProcessor,
+    registerProcessor,
+    sampleRate,
+    0
+  );
+  return processors;
+}
+
+function decodePcm16(base64: string): Int16Array {
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  return new Int16Array(bytes.buffer);
+}
+
+describe('pcm16-capture', () => {
+  it.each([48000, 44100])('%iHz 输入与 resampler.ts 的 resample 输出一致', (inputRate) => {
+    const Capture = loadProcessors(inputRate).get(CAPTURE_PROCESSOR)!;
+    const frameSamples = 480;
+    const processor = new Capture({
+      processorOptions: { targetSampleRate: 24000, frameSamples, kernel: createKernel(inputRate, 24000) },
+    });
+    const frames: CaptureFrameMessage[] = [];
+    processor.port.postMessage = (message) => frames.push(message);
+
+    const input = Float32Array.from({ length: inputRate }, (_, i) => 0.4 * Math.sin(i * 0.031) + 0.2 * Math.sin(i * 0.47 + 1));
+    for (let offset = 0; offset < input.length; offset += 128) {
+      processor.process([[input.subarray(offset, offset + 128)]]);
+    }
+
+    const expected = resample(createResampler(inputRate, 24000), input).output;
+    expect(frames.length).toBe(Math.floor(expected.length / frameSamples));
+    // 分块处理时位置按块重新计算，只允许浮点舍入级别的差异
+    let maxError = 0;
+    let maxPcmError = 0;
+    frames.forEach((frame, index) => {
+      const pcm = decodePcm16(frame.audio);
+      expect(frame.samples.length).toBe(frameSamples);
+      expect(pcm.length).toBe(frameSamples);
+      for (let i = 0; i < frameSamples; i++) {
+        const reference = expected[index * frameSamples + i];
+        maxError = Math.max(maxError, Math.abs(frame.samples[i] - reference));
+        maxPcmError = Math.max(maxPcmError, Math.abs(pcm[i] - reference * 0x7fff));
+      }
+    });
+    expect(maxError).toBeLessThan(1e-6);
+    expect(maxPcmError).toBeLessThan(2);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * AudioWorklet 处理器
+ * - pcm16-capture: 麦克风采集，在音频线程重采样到 24kHz、按帧编码为 Base64 PCM16
+ *                  卷积与 resampler.ts 共用 convolve 的实现，卷积核由主线程生成后传入
+ * - pcm16-player:  环形缓冲播放器，连续输出收到的音频块并回报每块的开始/结束时间
+ *
+ * 处理器运行在 AudioWorkletGlobalScope 中，不能引用应用代码，也没有 btoa，
+ * 因此以字符串形式保存，通过 Blob URL 加载（避免构建时转译引入辅助函数）
+ */
+
+import { ResamplerKernel, convolve } from './resampler';
+
+export const CAPTURE_PROCESSOR = 'pcm16-capture';
+export const PLAYER_PROCESSOR = 'pcm16-player';
+
+// pcm16-capture 的 processorOptions
+export interface CaptureProcessorOptions {
+  targetSampleRate: number;
+  frameSamples: number;            // 每帧的样本数（目标采样率）
+  kernel: ResamplerKernel | null;  // 采样率不同时的重采样卷积核
+}
+
+// pcm16-capture → 主线程
+export interface CaptureFrameMessage {
+  audio: string;          // Base64 PCM16
+  samples: Float32Array;  // 同一帧的浮点数据（用于 VAD）
+}
+
+// 主线程 → pcm16-player
+export type PlayerCommand =
+  | { type: 'push'; id: number; samples: Float32Array }
+  | { type: 'clear' };
+
+// pcm16-player → 主线程，time 为该事件发生时的 AudioContext 时间
+export type PlayerEvent =
+  | { type: 'started'; id: number; time: number }
+  | { type: 'ended'; id: number; time: number }
+  | { type: 'drained'; id: number; time: number };
+
+// 导出供测试在模拟的 AudioWorkletGlobalScope 中执行
+export const WORKLET_SOURCE = `
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function bytesToBase64(bytes) {
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += BASE64_CHARS[n >> 18] + BASE64_CHARS[(n >> 12) & 63] + BASE64_CHARS[(n >> 6) & 63] + BASE64_CHARS[n & 63];
+  }
+  const rest = bytes.length - i;
+  if (rest === 1) {
+    const n = bytes[i] << 16;
+    out += BASE64_CHARS[n >> 18] + BASE64_CHARS[(n >> 12) & 63] + '==';
+  } else if (rest === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    out += BASE64_CHARS[n >> 18] + BASE64_CHARS[(n >> 12) & 63] + BASE64_CHARS[(n >> 6) & 63] + '=';
+  }
+  return out;
+}
+
+// view：预先分配的 samples.length * 2 字节缓冲
+function floatToPcm16Base64(samples, view) {
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return bytesToBase64(new Uint8Array(view.buffer));
+}
+
+// 构建时函数名可能被压缩，以表达式形式赋给固定的名字
+const convolve = (${convolve.toString()});
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSamples, kernel } = options.processorOptions;
+    this.step = sampleRate / targetSampleRate;
+    this.kernel = kernel;
+    this.frame = new Float32Array(frameSamples);
+    this.frameLength = 0;
+    this.pcm = new DataView(new ArrayBuffer(frameSamples * 2));
+    if (kernel) {
+      const lead = Math.ceil(kernel.halfWidth);
+      // 预分配的工作缓冲：开头 historyLength 个样本为上一块保留的输入，本块输入接在其后
+      this.buffer = new Float32Array(lead * 2 + 1024);
+      this.historyLength = lead;
+      this.position = lead;  // 下一个输出样本在工作缓冲中的位置
+      this.emit = (value) => this.pushSample(value);
+    }
+  }
+
+  pushSample(value) {
+    this.frame[this.frameLength++] = value;
+    if (this.frameLength === this.frame.length) {
+      const samples = this.frame;
+      this.port.postMessage({ audio: floatToPcm16Base64(samples, this.pcm), samples }, [samples.buffer]);
+      // samples 已转移给主线程，每帧（而非每次 process）重新分配一次
+      this.frame = new Float32Array(samples.length);
+      this.frameLength = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    if (!this.kernel) {
+      for (let i = 0; i < input.length; i++) this.pushSample(input[i]);
+      return true;
+    }
+
+    // 跨块连续的加窗 sinc 重采样
+    const halfWidth = this.kernel.halfWidth;
+    const length = this.historyLength + input.length;
+    if (length > this.buffer.length) {
+      // 输入块比预期大时扩容（只在首次遇到时发生）
+      const grown = new Float32Array(length * 2);
+      grown.set(this.buffer.subarray(0, this.historyLength));
+      this.buffer = grown;
+    }
+    const buffer = this.buffer;
+    buffer.set(input, this.historyLength);
+
+    const position = convolve(this.kernel, this.step, buffer, length, this.position, this.emit);
+    const keepFrom = Math.min(length, Math.max(0, Math.floor(position - halfWidth)));
+    buffer.copyWithin(0, keepFrom, length);
+    this.historyLength = length - keepFrom;
+    this.position = position - keepFrom;
+    return true;
+  }
+}
+
+class PlayerProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Float32Array(sampleRate * 10);
+    this.readIndex = 0;    // 已读取的样本总数
+    this.writeIndex = 0;   // 已写入的样本总数
+    this.chunks = [];      // { id, start, end }，按写入顺序
+    this.lastId = 0;
+    this.playing = false;
+    this.port.onmessage = (event) => {
+      const command = event.data;
+      if (command.type === 'push') this.push(command.id, command.samples);
+      else if (command.type === 'clear') this.clear();
+    };
+  }
+
+  push(id, samples) {
+    const pending = this.writeIndex - this.readIndex;
+    if (pending + samples.length > this.buffer.length) {
+      // 缓冲不足时按倍数扩容，保留未播放的数据
+      let size = this.buffer.length * 2;
+      while (pending + samples.length > size) size *= 2;
+      const next = new Float32Array(size);
+      for (let i = 0; i < pending; i++) {
+        next[(this.readIndex + i) % size] = this.buffer[(this.readIndex + i) % this.buffer.length];
+      }
+      this.buffer = next;
+    }
+    for (let i = 0; i < samples.length; i++) {
+      this.buffer[(this.writeIndex + i) % this.buffer.length] = samples[i];
+    }
+    this.chunks.push({ id, start: this.writeIndex, end: this.writeIndex + samples.length });
+    this.writeIndex += samples.length;
+    this.lastId = id;
+  }
+
+  clear() {
+    this.readIndex = this.writeIndex;
+    this.chunks = [];
+    this.playing = false;
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0] && outputs[0][0];
+    if (!output) return true;
+
+    let written = 0;
+    while (written < output.length && this.readIndex < this.writeIndex) {
+      const chunk = this.chunks[0];
+      const time = currentTime + written / sampleRate;
+      if (chunk && this.readIndex === chunk.start) {
+        this.port.postMessage({ type: 'started', id: chunk.id, time });
+      }
+      const end = chunk ? chunk.end : this.writeIndex;
+      const count = Math.min(output.length - written, end - this.readIndex);
+      for (let i = 0; i < count; i++) {
+        output[written + i] = this.buffer[(this.readIndex + i) % this.buffer.length];
+      }
+      this.readIndex += count;
+      written += count;
+      if (chunk && this.readIndex === chunk.end) {
+        this.chunks.shift();
+        this.port.postMessage({ type: 'ended', id: chunk.id, time: currentTime + written / sampleRate });
+      }
+    }
+    output.fill(0, written);
+
+    if (written > 0) this.playing = true;
+    if (this.playing && this.readIndex === this.writeIndex) {
+      this.playing = false;
+      this.port.postMessage({ type: 'drained', id: this.lastId, time: currentTime + written / sampleRate });
+    }
+    return true;
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR}', CaptureProcessor);
+registerProcessor('${PLAYER_PROCESSOR}', PlayerProcessor);
+`;
+
+/**
+ * 在指定 AudioContext 上注册处理器
+ * @returns 浏览器不支持 AudioWorklet 或加载失败时返回 false，调用方回退到 ScriptProcessor
+ */
+export async function loadAudioWorklets(context: AudioContext): Promise<boolean> {
+  if (!context.audioWorklet || typeof AudioWorkletNode === 'undefined') return false;
+
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+    return true;
+  } catch {
+    return false;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
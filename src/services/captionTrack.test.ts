@@ -0,0 +1,97 @@
+import { CaptionTrack, splitCaptionWords } from './captionTrack';
+
+// 已说出部分的完整单词
+function spokenWords(track: CaptionTrack, playedMs: number): string[] {
+  const spoken = track.getSpokenLength(playedMs);
+  return splitCaptionWords(track.getText())
+    .filter((word) => word.end <= spoken)
+    .map((word) => word.text.trim());
+}
+
+// 三段转写：每段文字先于对应的音频到达
+function createTrack(): CaptionTrack {
+  const track = new CaptionTrack('item_1');
+  track.addText('Hello ');
+  track.addText('there. ');
+  track.addAudio(1000);
+  track.addText('How are ');
+  track.addAudio(500);
+  track.addText('you doing?');
+  track.addAudio(1000);
+  return track;
+}
+
+describe('splitCaptionWords', () => {
+  it('英文按空格分词，标点和空格跟随前一个词', () => {
+    expect(splitCaptionWords('Hi, how are you?').map((word) => word.text)).toEqual(['Hi, ', 'how ', 'are ', 'you?']);
+  });
+
+  it('中日韩文字逐字拆分，混排的英文单词保持完整', () => {
+    const words = splitCaptionWords('你好，English 老师！');
+    expect(words.map((word) => word.text)).toEqual(['你', '好，', 'English ', '老', '师！']);
+    expect(words[2]).toMatchObject({ start: 3, end: 11 });
+  });
+});
+
+describe('CaptionTrack', () => {
+  it('同一段音频之前到达的文字合并为一段，段内按时间线性插值', () => {
+    const track = createTrack();
+    track.finish();
+    const text = track.getText();
+    const second = text.indexOf('How');
+    const third = text.indexOf('you');
+
+    expect(track.getSpokenLength(0)).toBe(0);
+    expect(track.getSpokenLength(500)).toBe(Math.round(second / 2));
+    expect(track.getSpokenLength(1000)).toBe(second);
+    expect(track.getSpokenLength(1250)).toBe(Math.round((second + third) / 2));
+    expect(track.getSpokenLength(2500)).toBe(text.length);
+    expect(spokenWords(track, 1500)).toEqual(['Hello', 'there.', 'How', 'are']);
+  });
+
+  it('跳转播放位置（前进、后退）时按新位置重新计算，与播放历史无关', () => {
+    const track = createTrack();
+    track.finish();
+    const fresh = createTrack();
+    fresh.finish();
+
+    [2400, 300, 1600, 0, 1000, 9999].forEach((playedMs) => {
+      expect(track.getSpokenLength(playedMs)).toBe(fresh.getSpokenLength(playedMs));
+    });
+
+    // 播放位置越靠后，已说出的字数不减少
+    let last = 0;
+    for (let playedMs = 0; playedMs <= 2600; playedMs += 50) {
+      const spoken = track.getSpokenLength(playedMs);
+      expect(spoken).toBeGreaterThanOrEqual(last);
+      last = spoken;
+    }
+  });
+
+  it('音频未接收完时被打断：停在已播放的位置，尚无音频的文字不算说出', () => {
+    const track = new CaptionTrack('item_1');
+    track.addText('Hello there. ');
+    track.addAudio(1000);
+    track.addText('How are you?');
+    const second = track.getText().indexOf('How');
+
+    // 第二段文字已到达但还没有音频，打断时最多说到第一段末尾
+    expect(track.getSpokenLength(999)).toBeLessThanOrEqual(second);
+    expect(track.getSpokenLength(1000)).toBe(second);
+    expect(track.getSpokenLength(5000)).toBe(second);
+    expect(spokenWords(track, 1000)).toEqual(['Hello', 'there.']);
+
+    // 之后音频继续到达，照常推进
+    track.addAudio(1000);
+    track.finish();
+    expect(track.getSpokenLength(1500)).toBe(Math.round((second + track.getText().length) / 2));
+    expect(track.getSpokenLength(2000)).toBe(track.getText().length);
+  });
+
+  it('没有文字时始终为 0', () => {
+    const track = new CaptionTrack('item_1');
+    track.addAudio(1000);
+    expect(track.getSpokenLength(500)).toBe(0);
+    expect(track.getText()).toBe('');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * 语音字幕对齐
+ * 按每段 response.audio_transcript.delta 到达时已收到的音频时长，把转写文字映射到音频时间轴上，
+ * 再根据 AudioProcessor 回报的播放进度算出已经说到第几个字
+ */
+
+// 一段转写文字在全文和音频中的起点
+interface CaptionSegment {
+  start: number;    // 全文中的字符位置
+  startMs: number;  // 该段到达时已收到的音频时长（原音频毫秒）
+}
+
+// 字幕中的一个词（中日韩文字按单字，其余按空格分隔的单词，连同后面的标点和空格）
+export interface CaptionWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// 假名、中日韩统一表意文字、韩文音节
+const CJK = '\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff';
+const WORD_PATTERN = new RegExp(`[${CJK}][^\\s\\w${CJK}]*\\s*|[^\\s${CJK}]+\\s*|\\s+`, 'g');
+
+/**
+ * 把字幕拆成逐词高亮的单位
+ */
+export function splitCaptionWords(text: string): CaptionWord[] {
+  const words: CaptionWord[] = [];
+  const pattern = new RegExp(WORD_PATTERN);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    words.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  return words;
+}
+
+export class CaptionTrack {
+  readonly itemId: string;
+
+  private text = '';
+  private segments: CaptionSegment[] = [];
+  private receivedMs = 0;
+  private finished = false;
+
+  constructor(itemId: string) {
+    this.itemId = itemId;
+  }
+
+  /**
+   * 记录收到的一段音频
+   */
+  addAudio(durationMs: number): void {
+    this.receivedMs += durationMs;
+  }
+
+  /**
+   * 追加一段转写文字，从当前已收到的音频位置开始朗读
+   */
+  addText(delta: string): void {
+    if (!delta) return;
+    const last = this.segments[this.segments.length - 1];
+    // 第一段从音频开头算起；两段之间没有新音频时合并为一段
+    if (!last || (last.startMs < this.receivedMs && !this.finished)) {
+      this.segments.push({ start: this.text.length, startMs: last ? this.receivedMs : 0 });
+    }
+    this.text += delta;
+  }
+
+  /**
+   * 音频接收完成，此后已收到的音频时长即全文的结束时间
+   */
+  finish(): void {
+    this.finished = true;
+  }
+
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * 播放到 playedMs（原音频毫秒）时已说出的字符数，段内按时间线性插值
+   */
+  getSpokenLength(playedMs: number): number {
+    if (this.segments.length === 0 || playedMs <= 0) return 0;
+    if (this.finished && playedMs >= this.receivedMs) return this.text.length;
+
+    let index = 0;
+    while (index + 1 < this.segments.length && this.segments[index + 1].startMs <= playedMs) {
+      index++;
+    }
+    const segment = this.segments[index];
+    const next = this.segments[index + 1] || { start: this.text.length, startMs: this.receivedMs };
+    const span = next.startMs - segment.startMs;
+    // 最后一段文字还没有收到对应的音频（如中途被打断），不算说出
+    if (span <= 0) return segment.start;
+    const ratio = Math.min(Math.max((playedMs - segment.startMs) / span, 0), 1);
+    return Math.round(segment.start + (next.start - segment.start) * ratio);
+  }
+}
@@ -0,0 +1,83 @@
+import { ConversationMirror, getItemText } from './conversationMirror';
+import { ConversationItem } from './realtimeEvents';
+
+function userText(id: string, text: string): ConversationItem & { id: string } {
+  return { id, type: 'message', role: 'user', content: [{ type: 'input_text', text }] };
+}
+
+function assistantAudio(id: string, transcript: string): ConversationItem & { id: string } {
+  return { id, type: 'message', role: 'assistant', status: 'in_progress', content: [{ type: 'audio', transcript }] };
+}
+
+describe('ConversationMirror', () => {
+  it('按 previous_item_id 插入：undefined 追加到末尾，null 插入到开头', () => {
+    const mirror = new ConversationMirror();
+    mirror.upsert(userText('a', '1'));
+    mirror.upsert(userText('c', '3'));
+    mirror.upsert(userText('b', '2'), 'a');
+    mirror.upsert(userText('first', '0'), null);
+
+    expect(mirror.getItems().map((item) => item.id)).toEqual(['first', 'a', 'b', 'c']);
+    expect(mirror.getPreviousId('b')).toBe('a');
+    expect(mirror.getPreviousId('first')).toBeNull();
+    expect(mirror.getFrom('b').map((item) => item.id)).toEqual(['b', 'c']);
+  });
+
+  it('重复创建时更新原有项，保留位置和已有文本', () => {
+    const mirror = new ConversationMirror();
+    mirror.upsert(userText('u1', 'hi'));
+    mirror.upsert(assistantAudio('a1', 'hello there'));
+    mirror.upsert({ ...assistantAudio('a1', ''), status: 'completed' }, null);
+
+    const [, assistant] = mirror.getItems();
+    expect(assistant).toMatchObject({ id: 'a1', role: 'assistant', text: 'hello there', status: 'completed', isAudio: true });
+  });
+
+  it('rename 之后按新 ID 查找、删除', () => {
+    const mirror = new ConversationMirror();
+    mirror.upsert(userText('local_1', 'hi'));
+    mirror.upsert(assistantAudio('a1', 'hello'));
+    mirror.rename('local_1', 'server_1');
+
+    expect(mirror.get('local_1')).toBeUndefined();
+    expect(mirror.get('server_1')?.item.id).toBe('server_1');
+    expect(mirror.getPreviousId('a1')).toBe('server_1');
+    expect(mirror.remove('local_1')).toBe(false);
+    expect(mirror.remove('server_1')).toBe(true);
+    expect(mirror.length).toBe(1);
+  });
+
+  it('getTurn 返回所在轮次：最近的用户消息到下一条用户消息之前', () => {
+    const mirror = new ConversationMirror();
+    mirror.upsert(userText('u1', 'q1'));
+    mirror.upsert(assistantAudio('a1', 'r1'));
+    mirror.upsert(userText('u2', 'q2'));
+    mirror.upsert({ id: 'f1', type: 'function_call', call_id: 'c1', name: 'get_current_time', arguments: '{}' });
+    mirror.upsert({ id: 'o1', type: 'function_call_output', call_id: 'c1', output: '"12:00"' });
+    mirror.upsert(assistantAudio('a2', 'r2'));
+
+    expect(mirror.getTurn('o1').map((item) => item.id)).toEqual(['u2', 'f1', 'o1', 'a2']);
+    expect(mirror.getTurn('a1').map((item) => item.id)).toEqual(['u1', 'a1']);
+    expect(mirror.get('o1')?.role).toBe('tool');
+  });
+
+  it('setText / setStatus 修改的是镜像，getItems 返回副本', () => {
+    const mirror = new ConversationMirror();
+    mirror.upsert(assistantAudio('a1', 'hello world'));
+    mirror.setText('a1', 'hello');
+    mirror.setStatus('a1', 'incomplete');
+
+    const [copy] = mirror.getItems();
+    copy.text = 'changed';
+    expect(mirror.get('a1')).toMatchObject({ text: 'hello', status: 'incomplete' });
+  });
+});
+
+describe('getItemText', () => {
+  it('文本内容优先，其次为语音转录，函数调用取参数或输出', () => {
+    expect(getItemText(userText('u', 'hi'))).toBe('hi');
+    expect(getItemText(assistantAudio('a', 'spoken'))).toBe('spoken');
+    expect(getItemText({ type: 'function_call', call_id: 'c', name: 'f', arguments: '{"x":1}' })).toBe('{"x":1}');
+    expect(getItemText({ type: 'function_call_output', call_id: 'c', output: 'ok' })).toBe('ok');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * 对话项镜像
+ * 在本地按服务端顺序维护对话项（id、角色、内容、状态），用于删除、编辑、重新生成和重连回放
+ */
+
+import { ConversationItem, ItemStatus } from './realtimeEvents';
+
+export type MirrorItemRole = 'user' | 'assistant' | 'system' | 'tool';
+
+export interface MirrorItem {
+  id: string;
+  type: ConversationItem['type'];
+  role: MirrorItemRole;
+  text: string;            // 文本内容或语音转录
+  status: ItemStatus;
+  isAudio: boolean;        // 是否为语音输入/输出
+  item: ConversationItem;  // 原始对话项
+}
+
+/**
+ * 提取对话项中的文本（文本内容优先，其次为语音转录）
+ */
+export function getItemText(item: ConversationItem): string {
+  switch (item.type) {
+    case 'message':
+      return item.content
+        .map((part) => ('text' in part ? part.text : part.transcript || ''))
+        .join('');
+    case 'function_call':
+      return item.arguments;
+    case 'function_call_output':
+      return item.output;
+  }
+}
+
+function getItemRole(item: ConversationItem): MirrorItemRole {
+  return item.type === 'message' ? item.role : 'tool';
+}
+
+export class ConversationMirror {
+  private items: MirrorItem[] = [];
+
+  /**
+   * 插入或更新对话项
+   * @param previousItemId 前一项 ID：undefined 追加到末尾，null 插入到开头
+   */
+  upsert(item: ConversationItem & { id: string }, previousItemId?: string | null): MirrorItem {
+    const existing = this.get(item.id);
+    const text = getItemText(item);
+    if (existing) {
+      existing.item = item;
+      existing.status = item.status || existing.status;
+      existing.text = text || existing.text;
+      return existing;
+    }
+
+    const mirrorItem: MirrorItem = {
+      id: item.id,
+      type: item.type,
+      role: getItemRole(item),
+      text,
+      status: item.status || 'completed',
+      isAudio: item.type === 'message' && item.content.some((part) => part.type === 'input_audio' || part.type === 'audio'),
+      item,
+    };
+
+    if (previousItemId === undefined) {
+      this.items.push(mirrorItem);
+    } else {
+      const index = previousItemId === null ? -1 : this.indexOf(previousItemId);
+      this.items.splice(index + 1, 0, mirrorItem);
+    }
+    return mirrorItem;
+  }
+
+  setText(itemId: string, text: string): void {
+    const item = this.get(itemId);
+    if (item) {
+      item.text = text;
+    }
+  }
+
+  setStatus(itemId: string, status: ItemStatus): void {
+    const item = this.get(itemId);
+    if (item) {
+      item.status = status;
+    }
+  }
+
+  /**
+   * 替换对话项 ID（服务端未沿用客户端指定的 ID 时）
+   */
+  rename(oldId: string, newId: string): void {
+    const item = this.get(oldId);
+    if (item) {
+      item.id = newId;
+      item.item = { ...item.item, id: newId };
+    }
+  }
+
+  remove(itemId: string): boolean {
+    const index = this.indexOf(itemId);
+    if (index === -1) return false;
+    this.items.splice(index, 1);
+    return true;
+  }
+
+  get(itemId: string): MirrorItem | undefined {
+    return this.items.find((item) => item.id === itemId);
+  }
+
+  indexOf(itemId: string): number {
+    return this.items.findIndex((item) => item.id === itemId);
+  }
+
+  /**
+   * 某一项之前的对话项 ID（用于 previous_item_id）
+   */
+  getPreviousId(itemId: string): string | null {
+    const index = this.indexOf(itemId);
+    return index > 0 ? this.items[index - 1].id : null;
+  }
+
+  /**
+   * 从某一项开始（含）到末尾的所有对话项
+   */
+  getFrom(itemId: string): MirrorItem[] {
+    const index = this.indexOf(itemId);
+    return index === -1 ? [] : this.items.slice(index);
+  }
+
+  /**
+   * 某一项所在的轮次：最近的用户消息及其后直到下一条用户消息之前的所有项
+   */
+  getTurn(itemId: string): MirrorItem[] {
+    const index = this.indexOf(itemId);
+    if (index === -1) return [];
+
+    let start = index;
+    while (start > 0 && this.items[start].role !== 'user') {
+      start--;
+    }
+    let end = index + 1;
+    while (end < this.items.length && this.items[end].role !== 'user') {
+      end++;
+    }
+    return this.items.slice(start, end);
+  }
+
+  getItems(): MirrorItem[] {
+    return this.items.map((item) => ({ ...item }));
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  clear(): void {
+    this.items = [];
+  }
+}
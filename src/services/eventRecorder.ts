@@ -0,0 +1,158 @@
+/**
+ * 事件录制
+ * 记录收发的每个 Realtime 事件及时间戳，导出为 JSONL 会话文件，供 ReplayTransport 回放
+ */
+
+import { getPcm16DurationMs, isRecord } from './realtimeEvents';
+import { createLogger } from './logger';
+
+const log = createLogger('realtime');
+
+export type RecordDirection = 'in' | 'out';
+
+export interface RecordingEntry {
+  t: number;               // 相对录制开始的毫秒数
+  dir: RecordDirection;    // in: 服务端 → 客户端，out: 客户端 → 服务端
+  event: unknown;
+}
+
+// JSONL 第一行
+export interface RecordingMeta {
+  type: 'recording.meta';
+  version: number;
+  startedAt: string;
+  includeAudio: boolean;
+}
+
+export interface Recording {
+  meta: RecordingMeta;
+  entries: RecordingEntry[];
+}
+
+const RECORDING_VERSION = 1;
+
+// 不包含音频时，音频字段替换为空字符串，并以该字段记录原始时长（毫秒）
+export const OMITTED_AUDIO_FIELD = '_audio_ms';
+
+/**
+ * 去掉事件中的音频数据，保留时长
+ */
+function stripAudio(event: unknown): unknown {
+  if (typeof event !== 'object' || event === null) return event;
+
+  const record = event as Record<string, unknown>;
+  const field = record.type === 'response.audio.delta'
+    ? 'delta'
+    : record.type === 'input_audio_buffer.append' ? 'audio' : null;
+  if (!field || typeof record[field] !== 'string') return event;
+
+  return {
+    ...record,
+    [field]: '',
+    [OMITTED_AUDIO_FIELD]: Math.round(getPcm16DurationMs(record[field] as string)),
+  };
+}
+
+export class EventRecorder {
+  private entries: RecordingEntry[] = [];
+  private meta: RecordingMeta | null = null;
+  private startTime = 0;
+  private recording = false;
+  private includeAudio = true;
+
+  /**
+   * 开始录制（清空之前的记录）
+   * @param includeAudio 是否保存音频数据，关闭时只保留时长，文件体积小很多
+   */
+  start(includeAudio = true): void {
+    this.entries = [];
+    this.includeAudio = includeAudio;
+    this.startTime = performance.now();
+    this.meta = {
+      type: 'recording.meta',
+      version: RECORDING_VERSION,
+      startedAt: new Date().toISOString(),
+      includeAudio,
+    };
+    this.recording = true;
+    log.info(`⏺️ 开始录制事件${includeAudio ? '' : '（不含音频）'}`);
+  }
+
+  stop(): void {
+    if (!this.recording) return;
+    this.recording = false;
+    log.info(`⏹️ 停止录制，共 ${this.entries.length} 个事件`);
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  record(dir: RecordDirection, event: unknown): void {
+    if (!this.recording) return;
+    this.entries.push({
+      t: Math.round(performance.now() - this.startTime),
+      dir,
+      event: this.includeAudio ? event : stripAudio(event),
+    });
+  }
+
+  get count(): number {
+    return this.entries.length;
+  }
+
+  getRecording(): Recording | null {
+    return this.meta ? { meta: this.meta, entries: [...this.entries] } : null;
+  }
+
+  /**
+   * 导出为 JSONL：第一行为元信息，之后每行一个事件
+   */
+  toJsonl(): string {
+    if (!this.meta) return '';
+    return [this.meta, ...this.entries].map((line) => JSON.stringify(line)).join('\n') + '\n';
+  }
+}
+
+/**
+ * 解析 JSONL 会话文件
+ * @throws 格式错误时抛出，错误信息包含行号
+ */
+export function parseRecording(text: string): Recording {
+  const lines = text.split('\n').filter((line) => line.trim());
+  if (lines.length === 0) {
+    throw new Error('录制文件为空');
+  }
+
+  const parseLine = (line: string, index: number): unknown => {
+    try {
+      return JSON.parse(line);
+    } catch (e) {
+      throw new Error(`第 ${index + 1} 行 JSON 解析失败: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const meta = parseLine(lines[0], 0);
+  if (!isRecord(meta) || meta.type !== 'recording.meta') {
+    throw new Error('缺少 recording.meta 元信息行');
+  }
+  if (typeof meta.version !== 'number' || meta.version > RECORDING_VERSION) {
+    throw new Error(`不支持的录制版本: ${String(meta.version)}`);
+  }
+  if (typeof meta.startedAt !== 'string' || typeof meta.includeAudio !== 'boolean') {
+    throw new Error('第 1 行不是有效的元信息');
+  }
+
+  const entries = lines.slice(1).map((line, i): RecordingEntry => {
+    const entry = parseLine(line, i + 1);
+    if (!isRecord(entry) || typeof entry.t !== 'number' || (entry.dir !== 'in' && entry.dir !== 'out') || !('event' in entry)) {
+      throw new Error(`第 ${i + 2} 行不是有效的事件记录`);
+    }
+    return { t: entry.t, dir: entry.dir, event: entry.event };
+  });
+
+  return {
+    meta: { type: 'recording.meta', version: meta.version, startedAt: meta.startedAt, includeAudio: meta.includeAudio },
+    entries,
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * 端到端延迟统计
+ * 在 AudioProcessor 和 RealtimeService 的关键节点打点，按轮次汇总各阶段耗时及 p50/p95
+ */
+
+/**
+ * 打点类型
+ * - speech_end:         VAD 检测到用户停止说话（本地或服务端）
+ * - commit:             客户端提交音频缓冲区
+ * - text_sent:          客户端发送文本消息
+ * - committed:          服务端确认音频已提交
+ * - response_created:   服务端开始生成响应
+ * - first_text_delta:   收到第一个文本增量
+ * - first_audio_delta:  收到第一个音频增量
+ * - first_audio_played: 第一个音频块实际开始播放
+ * - playback_end:       播放队列播放完毕
+ */
+export type LatencyMark =
+  | 'speech_end'
+  | 'commit'
+  | 'text_sent'
+  | 'committed'
+  | 'response_created'
+  | 'first_text_delta'
+  | 'first_audio_delta'
+  | 'first_audio_played'
+  | 'playback_end';
+
+// 这些打点意味着用户开始了新的一轮
+const TURN_START_MARKS: LatencyMark[] = ['speech_end', 'commit', 'text_sent'];
+
+// 这些打点以最后一次为准（播放过程中队列可能短暂为空）
+const LAST_WINS_MARKS: LatencyMark[] = ['playback_end'];
+
+// 出现这些打点后，下一个起始打点会开启新的一轮
+const RESPONSE_MARKS: LatencyMark[] = ['response_created', 'first_text_delta', 'first_audio_delta', 'first_audio_played', 'playback_end'];
+
+export interface LatencyMetric {
+  key: string;
+  label: string;
+  from: LatencyMark;
+  to: LatencyMark;
+}
+
+// 各阶段耗时（起点打点 → 终点打点）
+export const LATENCY_METRICS: LatencyMetric[] = [
+  { key: 'vad_to_commit', label: '静音判定 → 提交', from: 'speech_end', to: 'commit' },
+  { key: 'commit_ack', label: '提交 → 服务端确认', from: 'commit', to: 'committed' },
+  { key: 'committed_to_response', label: '确认 → 开始响应', from: 'committed', to: 'response_created' },
+  { key: 'first_text', label: '开始响应 → 首个文本', from: 'response_created', to: 'first_text_delta' },
+  { key: 'first_audio', label: '开始响应 → 首个音频', from: 'response_created', to: 'first_audio_delta' },
+  { key: 'playback_start', label: '首个音频 → 开始播放', from: 'first_audio_delta', to: 'first_audio_played' },
+  { key: 'speech_to_audio', label: '说完 → 听到回复', from: 'speech_end', to: 'first_audio_played' },
+  { key: 'text_to_audio', label: '发送文本 → 听到回复', from: 'text_sent', to: 'first_audio_played' },
+  { key: 'playback', label: '回复播放时长', from: 'first_audio_played', to: 'playback_end' },
+];
+
+export interface LatencyTurn {
+  id: number;
+  startedAt: number;                                // 开始时间（Unix 毫秒）
+  marks: Partial<Record<LatencyMark, number>>;      // 相对本轮开始的毫秒数
+}
+
+export interface LatencyStat {
+  key: string;
+  label: string;
+  count: number;
+  p50: number | null;
+  p95: number | null;
+  last: number | null;
+}
+
+export interface LatencyTrackerCallbacks {
+  onUpdate?: (turns: LatencyTurn[]) => void;
+}
+
+const DEFAULT_MAX_TURNS = 100;
+
+/**
+ * 计算某一轮中某项指标的耗时
+ */
+export function getTurnMetric(turn: LatencyTurn, metric: LatencyMetric): number | null {
+  const from = turn.marks[metric.from];
+  const to = turn.marks[metric.to];
+  if (from === undefined || to === undefined || to < from) return null;
+  return Math.round(to - from);
+}
+
+/**
+ * 最近秩法计算百分位
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+export class LatencyTracker {
+  private turns: LatencyTurn[] = [];
+  private current: LatencyTurn | null = null;
+  private currentStart = 0;  // 本轮开始的 performance.now()
+  private nextId = 1;
+  private maxTurns: number;
+  private callbacks: LatencyTrackerCallbacks = {};
+
+  constructor(maxTurns = DEFAULT_MAX_TURNS) {
+    this.maxTurns = maxTurns;
+  }
+
+  setCallbacks(callbacks: LatencyTrackerCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * 打点
+   * @param at performance.now() 时间戳，默认为当前时间（音频预定在未来播放时可传入预计时间）
+   */
+  mark(name: LatencyMark, at: number = performance.now()): void {
+    if (this.shouldStartTurn(name)) {
+      this.startTurn(at);
+    }
+    if (!this.current) return;
+
+    const marks = this.current.marks;
+    if (marks[name] !== undefined && !LAST_WINS_MARKS.includes(name)) return;
+
+    marks[name] = Math.max(0, at - this.currentStart);
+    this.emitUpdate();
+  }
+
+  getTurns(): LatencyTurn[] {
+    return this.turns.map((turn) => ({ ...turn, marks: { ...turn.marks } }));
+  }
+
+  /**
+   * 各项指标的 p50 / p95 / 最近一次
+   */
+  getStats(): LatencyStat[] {
+    return LATENCY_METRICS.map((metric) => {
+      const values = this.turns
+        .map((turn) => getTurnMetric(turn, metric))
+        .filter((value): value is number => value !== null);
+      const sorted = [...values].sort((a, b) => a - b);
+      return {
+        key: metric.key,
+        label: metric.label,
+        count: values.length,
+        p50: percentile(sorted, 50),
+        p95: percentile(sorted, 95),
+        last: values.length > 0 ? values[values.length - 1] : null,
+      };
+    });
+  }
+
+  /**
+   * 导出为 JSON，用于回归对比
+   */
+  exportJson(): string {
+    return JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+      stats: this.getStats(),
+      turns: this.turns.map((turn) => ({
+        ...turn,
+        metrics: Object.fromEntries(LATENCY_METRICS.map((metric) => [metric.key, getTurnMetric(turn, metric)])),
+      })),
+    }, null, 2);
+  }
+
+  clear(): void {
+    this.turns = [];
+    this.current = null;
+    this.emitUpdate();
+  }
+
+  // ==================== 内部方法 ====================
+
+  private shouldStartTurn(name: LatencyMark): boolean {
+    if (!this.current) {
+      // 文本输入等没有起始打点的响应，从开始响应算起
+      return TURN_START_MARKS.includes(name) || name === 'response_created';
+    }
+    if (!TURN_START_MARKS.includes(name)) return false;
+
+    const marks = this.current.marks;
+    // 同一轮中重复的起始打点，或上一轮已经开始响应
+    return marks[name] !== undefined || RESPONSE_MARKS.some((mark) => marks[mark] !== undefined);
+  }
+
+  private startTurn(at: number): void {
+    this.current = {
+      id: this.nextId++,
+      startedAt: Date.now() - (performance.now() - at),
+      marks: {},
+    };
+    this.currentStart = at;
+    this.turns.push(this.current);
+    if (this.turns.length > this.maxTurns) {
+      this.turns.shift();
+    }
+  }
+
+  private emitUpdate(): void {
+    this.callbacks.onUpdate?.(this.getTurns());
+  }
+}
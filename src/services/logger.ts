@@ -0,0 +1,222 @@
+/**
+ * 结构化日志
+ * 按命名空间和级别输出，写入内存环形缓冲供调试面板查看和导出，日志数据中的 API Key 和音频会被脱敏
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export type LogNamespace = 'realtime' | 'audio' | 'vad' | 'proxy';
+
+export const LOG_NAMESPACES: LogNamespace[] = ['realtime', 'audio', 'vad', 'proxy'];
+
+export interface LogEntry {
+  id: number;
+  time: number;           // 时间戳（毫秒）
+  level: LogLevel;
+  namespace: LogNamespace;
+  message: string;
+  data?: unknown[];       // 已脱敏的附加数据
+}
+
+// 各命名空间的输出级别，未单独设置的使用 default
+export type LogLevelConfig = { default: LogLevel } & Partial<Record<LogNamespace, LogLevel>>;
+
+type LogListener = (entries: LogEntry[]) => void;
+
+const STORAGE_KEY = 'minimax-realtime-log-levels';
+const DEFAULT_CAPACITY = 1000;
+const MAX_DEPTH = 6;
+const REDACTED = '[REDACTED]';
+
+// 字段名命中时整体替换
+const SECRET_KEY_PATTERN = /api[_-]?key|authorization|secret|password|token$/i;
+// 字符串中可能出现的密钥：Bearer 头、URL 参数、JWT、sk- 开头的 Key
+const SECRET_VALUE_PATTERNS: [RegExp, string][] = [
+  [/(Bearer\s+)[\w.~+/=-]+/gi, `$1${REDACTED}`],
+  [/([?&](?:api[_-]?key|token|key)=)[^&\s]+/gi, `$1${REDACTED}`],
+  [/eyJ[\w-]{8,}\.[\w-]{8,}\.[\w-]+/g, REDACTED],
+  [/sk-[\w-]{16,}/g, REDACTED],
+];
+// 音频数据字段（append 和对话项中的 audio、音频增量的 delta）及其他超长 Base64
+const AUDIO_DELTA_EVENT = 'response.audio.delta';
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+const MAX_BASE64_LENGTH = 256;
+
+function redactString(value: string): string {
+  return SECRET_VALUE_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+}
+
+function describeBase64(value: string): string {
+  return `[audio ${Math.round((value.length * 3) / 4)} bytes]`;
+}
+
+/**
+ * 脱敏：返回副本，不修改原对象
+ */
+export function redact(value: unknown, key = '', parentType = '', depth = 0): unknown {
+  if (typeof value === 'string') {
+    const isAudioField = key === 'audio' || (key === 'delta' && parentType === AUDIO_DELTA_EVENT);
+    if ((isAudioField || value.length > MAX_BASE64_LENGTH) && BASE64_PATTERN.test(value)) {
+      return describeBase64(value);
+    }
+    return redactString(value);
+  }
+  if (typeof value !== 'object' || value === null) return value;
+  if (value instanceof Error) return { name: value.name, message: redactString(value.message) };
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return `[binary ${value.byteLength} bytes]`;
+  if (depth >= MAX_DEPTH) return '[...]';
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, '', parentType, depth + 1));
+  }
+  const record = value as Record<string, unknown>;
+  const type = typeof record.type === 'string' ? record.type : parentType;
+  const result: Record<string, unknown> = {};
+  Object.entries(record).forEach(([field, item]) => {
+    result[field] = SECRET_KEY_PATTERN.test(field) && item ? REDACTED : redact(item, field, type, depth + 1);
+  });
+  return result;
+}
+
+function loadLevels(): LogLevelConfig {
+  const fallback = (process.env.REACT_APP_LOG_LEVEL as LogLevel) || 'info';
+  const defaults: LogLevelConfig = { default: LOG_LEVELS.includes(fallback) ? fallback : 'info' };
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+  } catch {
+    return defaults;
+  }
+}
+
+export class LogManager {
+  private entries: LogEntry[] = [];
+  private capacity: number;
+  private nextId = 1;
+  private levels: LogLevelConfig;
+  private listeners = new Set<LogListener>();
+  private notifyScheduled = false;
+
+  constructor(capacity = DEFAULT_CAPACITY) {
+    this.capacity = capacity;
+    this.levels = loadLevels();
+  }
+
+  // ==================== 级别 ====================
+
+  getLevels(): LogLevelConfig {
+    return { ...this.levels };
+  }
+
+  /**
+   * 设置输出级别，不指定命名空间时设置默认级别；设置会保存在 localStorage
+   */
+  setLevel(level: LogLevel, namespace?: LogNamespace): void {
+    if (namespace) {
+      this.levels = { ...this.levels, [namespace]: level };
+    } else {
+      this.levels = { ...this.levels, default: level };
+    }
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.levels));
+    } catch {
+      // 隐私模式下无法保存，仅本次生效
+    }
+  }
+
+  isEnabled(namespace: LogNamespace, level: LogLevel): boolean {
+    const threshold = this.levels[namespace] || this.levels.default;
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+  }
+
+  // ==================== 写入 ====================
+
+  log(namespace: LogNamespace, level: LogLevel, message: string, data: unknown[]): void {
+    if (!this.isEnabled(namespace, level)) return;
+
+    const entry: LogEntry = {
+      id: this.nextId++,
+      time: Date.now(),
+      level,
+      namespace,
+      message: redactString(message),
+    };
+    if (data.length > 0) {
+      entry.data = data.map((item) => redact(item));
+    }
+
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+
+    const method = level === 'debug' ? 'log' : level;
+    console[method](`[${namespace}] ${entry.message}`, ...(entry.data || []));
+    this.scheduleNotify();
+  }
+
+  /**
+   * 合并同一轮事件循环内的多条日志，只通知一次订阅者
+   */
+  private scheduleNotify(): void {
+    if (this.notifyScheduled || this.listeners.size === 0) return;
+    this.notifyScheduled = true;
+    setTimeout(() => {
+      this.notifyScheduled = false;
+      const entries = this.getEntries();
+      this.listeners.forEach((listener) => listener(entries));
+    }, 0);
+  }
+
+  // ==================== 读取 ====================
+
+  getEntries(): LogEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * 订阅日志变化，返回取消订阅函数
+   */
+  subscribe(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.listeners.forEach((listener) => listener([]));
+  }
+
+  /**
+   * 导出为 JSONL，每行一条日志
+   */
+  exportJsonl(entries: LogEntry[] = this.entries): string {
+    return entries.map((entry) => JSON.stringify({ ...entry, time: new Date(entry.time).toISOString() })).join('\n') + '\n';
+  }
+}
+
+// 全局日志实例
+export const logManager = new LogManager();
+
+export interface Logger {
+  debug(message: string, ...data: unknown[]): void;
+  info(message: string, ...data: unknown[]): void;
+  warn(message: string, ...data: unknown[]): void;
+  error(message: string, ...data: unknown[]): void;
+}
+
+/**
+ * 创建命名空间日志，如 createLogger('realtime').info('✅ 已连接')
+ */
+export function createLogger(namespace: LogNamespace, manager: LogManager = logManager): Logger {
+  return {
+    debug: (message, ...data) => manager.log(namespace, 'debug', message, data),
+    info: (message, ...data) => manager.log(namespace, 'info', message, data),
+    warn: (message, ...data) => manager.log(namespace, 'warn', message, data),
+    error: (message, ...data) => manager.log(namespace, 'error', message, data),
+  };
+}
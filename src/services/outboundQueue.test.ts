@@ -0,0 +1,129 @@
+import { OutboundQueue } from './outboundQueue';
+import { ClientEvent, InputAudioBufferAppendEvent, getClientEventType } from './realtimeEvents';
+
+// 24kHz PCM16 的 100ms 音频：4800 字节
+function audio100ms(): InputAudioBufferAppendEvent {
+  return { type: 'input_audio_buffer.append', audio: 'A'.repeat(6400) };
+}
+
+const commit: ClientEvent = { type: 'input_audio_buffer.commit' };
+const responseCreate: ClientEvent = { type: 'response.create' };
+
+function drain(queue: OutboundQueue): ClientEvent[] {
+  const events: ClientEvent[] = [];
+  let event: ClientEvent | undefined;
+  while ((event = queue.shift())) events.push(event);
+  return events;
+}
+
+describe('OutboundQueue', () => {
+  it('按入队顺序取出，心跳不排队', () => {
+    const queue = new OutboundQueue();
+    expect(queue.enqueue(audio100ms())).toBe(true);
+    expect(queue.enqueue({ event: 'task_continue', text: '' })).toBe(false);
+    expect(queue.enqueue(commit)).toBe(true);
+    expect(queue.enqueue(responseCreate)).toBe(true);
+
+    expect(queue.getAudioMs()).toBeCloseTo(100);
+    expect(queue.getDroppedCount()).toBe(1);
+    expect(drain(queue).map(getClientEventType)).toEqual([
+      'input_audio_buffer.append',
+      'input_audio_buffer.commit',
+      'response.create',
+    ]);
+    expect(queue.getAudioMs()).toBe(0);
+  });
+
+  it('音频超出时间预算时丢弃最旧的音频块，其他事件保留', () => {
+    const queue = new OutboundQueue({ audioBudgetMs: 250 });
+    const first = audio100ms();
+    queue.enqueue(first);
+    queue.enqueue(commit);
+    queue.enqueue(audio100ms());
+    queue.enqueue(audio100ms());
+    queue.enqueue(audio100ms());
+
+    expect(queue.getDroppedCount()).toBe(2);
+    expect(queue.getAudioMs()).toBeCloseTo(200, 0);
+    const events = drain(queue);
+    expect(events).not.toContain(first);
+    expect(events.map(getClientEventType)).toEqual([
+      'input_audio_buffer.commit',
+      'input_audio_buffer.append',
+      'input_audio_buffer.append',
+    ]);
+  });
+
+  it('超出事件数上限时只淘汰音频，只剩必须保留的事件时标记溢出', () => {
+    const queue = new OutboundQueue({ maxEvents: 3 });
+    queue.enqueue(audio100ms());
+    queue.enqueue(commit);
+    queue.enqueue(responseCreate);
+    queue.enqueue({ type: 'conversation.item.delete', item_id: 'item_1' });
+
+    expect(queue.length).toBe(3);
+    expect(queue.getDroppedCount()).toBe(1);
+    expect(queue.isOverflowing()).toBe(false);
+
+    queue.enqueue({ type: 'conversation.item.delete', item_id: 'item_2' });
+    expect(queue.length).toBe(4);
+    expect(queue.isOverflowing()).toBe(true);
+
+    queue.shift();
+    expect(queue.isOverflowing()).toBe(false);
+  });
+
+  it('会话配置合并进已排队的那一条，保持在之后的响应请求之前，嵌套字段逐项合并', () => {
+    const queue = new OutboundQueue();
+    queue.enqueue({
+      type: 'session.update',
+      session: {
+        voice: 'female-tianmei',
+        instructions: 'old',
+        turn_detection: { type: 'server_vad', threshold: 0.5, silence_duration_ms: 500 },
+      },
+    });
+    queue.enqueue({
+      type: 'conversation.item.create',
+      item: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'hi' }] },
+    });
+    queue.enqueue(responseCreate);
+    queue.enqueue({
+      type: 'session.update',
+      session: { instructions: 'new', turn_detection: { type: 'server_vad', threshold: 0.7 } },
+    });
+
+    const events = drain(queue);
+    expect(events.map(getClientEventType)).toEqual(['session.update', 'conversation.item.create', 'response.create']);
+    expect(events[0]).toEqual({
+      type: 'session.update',
+      session: {
+        voice: 'female-tianmei',
+        instructions: 'new',
+        turn_detection: { type: 'server_vad', threshold: 0.7, silence_duration_ms: 500 },
+      },
+    });
+  });
+
+  it('关闭服务端 VAD（turn_detection 为 null）时覆盖之前的配置', () => {
+    const queue = new OutboundQueue();
+    queue.enqueue({ type: 'session.update', session: { turn_detection: { type: 'server_vad', threshold: 0.5 } } });
+    queue.enqueue({ type: 'session.update', session: { turn_detection: null } });
+
+    expect(queue.length).toBe(1);
+    expect(queue.shift()).toEqual({ type: 'session.update', session: { turn_detection: null } });
+  });
+
+  it('clear 清空事件、音频时长和溢出标记', () => {
+    const queue = new OutboundQueue({ maxEvents: 1 });
+    queue.enqueue(commit);
+    queue.enqueue(responseCreate);
+    queue.enqueue(audio100ms());
+    expect(queue.isOverflowing()).toBe(true);
+
+    queue.clear();
+    expect(queue.length).toBe(0);
+    expect(queue.getAudioMs()).toBe(0);
+    expect(queue.isOverflowing()).toBe(false);
+  });
+});
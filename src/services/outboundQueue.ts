@@ -0,0 +1,179 @@
+/**
+ * 出站消息队列
+ * 连接未就绪或网络拥塞时暂存客户端事件，恢复后按原顺序发送
+ */
+
+import {
+  ClientEvent,
+  ClientEventType,
+  PCM16_SAMPLE_RATE,
+  SessionConfig,
+  SessionUpdateEvent,
+  getClientEventType,
+  getPcm16DurationMs,
+  isRecord,
+} from './realtimeEvents';
+
+/**
+ * 排队策略
+ * - keep:     始终保留（提交、文本消息、响应请求等）
+ * - audio:    音频块，超出时间预算或事件数上限时丢弃最旧的部分
+ * - coalesce: 只保留一条，后入队的与已排队的合并（会话配置）
+ * - drop:     不排队，连接恢复后已失效（心跳）
+ */
+export type OutboundPolicy = 'keep' | 'audio' | 'coalesce' | 'drop';
+
+export interface OutboundQueueOptions {
+  maxEvents: number;      // 队列最大事件数
+  audioBudgetMs: number;  // 最多保留的音频时长（毫秒）
+  sampleRate: number;     // 音频采样率，用于换算 PCM16 时长
+}
+
+export const DEFAULT_OUTBOUND_QUEUE_OPTIONS: OutboundQueueOptions = {
+  maxEvents: 500,
+  audioBudgetMs: 5000,
+  sampleRate: PCM16_SAMPLE_RATE,
+};
+
+const OUTBOUND_POLICIES: Partial<Record<ClientEventType, OutboundPolicy>> = {
+  'input_audio_buffer.append': 'audio',
+  // 连接中拥塞时也会排队，合并为一条，保证最后一次修改生效
+  'session.update': 'coalesce',
+  'task_continue': 'drop',
+};
+
+function isSessionUpdate(event: ClientEvent): event is SessionUpdateEvent {
+  return getClientEventType(event) === 'session.update';
+}
+
+// 后者覆盖前者；两边都是对象的字段（如 turn_detection）逐字段合并，数组整体替换
+function mergeRecords(base: Record<string, unknown>, patch: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  Object.entries(patch).forEach(([key, value]) => {
+    const previous = merged[key];
+    merged[key] = isRecord(previous) && isRecord(value) ? mergeRecords(previous, value) : value;
+  });
+  return merged;
+}
+
+interface QueuedEvent {
+  event: ClientEvent;
+  audioMs: number;
+}
+
+export class OutboundQueue {
+  private items: QueuedEvent[] = [];
+  private options: OutboundQueueOptions;
+  private audioMs = 0;
+  private droppedCount = 0;
+  private overflowing = false;
+
+  constructor(options?: Partial<OutboundQueueOptions>) {
+    this.options = { ...DEFAULT_OUTBOUND_QUEUE_OPTIONS, ...options };
+  }
+
+  /**
+   * 入队
+   * @returns 事件是否被保留
+   */
+  enqueue(event: ClientEvent): boolean {
+    const policy = OUTBOUND_POLICIES[getClientEventType(event)] || 'keep';
+    if (policy === 'drop') {
+      this.droppedCount++;
+      return false;
+    }
+
+    if (policy === 'coalesce' && isSessionUpdate(event) && this.coalesceSessionUpdate(event)) {
+      return true;
+    }
+
+    const audioMs = policy === 'audio' && 'audio' in event
+      ? getPcm16DurationMs(event.audio, this.options.sampleRate)
+      : 0;
+    this.items.push({ event, audioMs });
+    this.audioMs += audioMs;
+
+    this.trimAudio();
+    this.trimEvents();
+    return true;
+  }
+
+  shift(): ClientEvent | undefined {
+    const item = this.items.shift();
+    if (item) {
+      this.audioMs -= item.audioMs;
+    }
+    if (this.items.length <= this.options.maxEvents) {
+      this.overflowing = false;
+    }
+    return item?.event;
+  }
+
+  clear(): void {
+    this.items = [];
+    this.audioMs = 0;
+    this.overflowing = false;
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  /** 队列中音频的总时长（毫秒） */
+  getAudioMs(): number {
+    return this.audioMs;
+  }
+
+  /** 累计丢弃的事件数 */
+  getDroppedCount(): number {
+    return this.droppedCount;
+  }
+
+  /** 只剩必须保留的事件、超出事件数上限 */
+  isOverflowing(): boolean {
+    return this.overflowing;
+  }
+
+  /**
+   * 音频超出时间预算时，从最旧的音频块开始丢弃
+   */
+  private trimAudio(): void {
+    while (this.audioMs > this.options.audioBudgetMs) {
+      const index = this.items.findIndex((item) => item.audioMs > 0);
+      if (index === -1) break;
+      this.removeAt(index);
+    }
+  }
+
+  /**
+   * 超出最大事件数时丢弃最旧的音频块；提交、文本等必须保留的事件不丢弃，标记为溢出
+   */
+  private trimEvents(): void {
+    while (this.items.length > this.options.maxEvents) {
+      const index = this.items.findIndex((item) => item.audioMs > 0);
+      if (index === -1) {
+        this.overflowing = true;
+        return;
+      }
+      this.removeAt(index);
+    }
+  }
+
+  /**
+   * 把新配置合并进已排队的会话配置，保持其原有位置，使其先于之后排队的消息和响应请求生效
+   * @returns 是否已合并（没有排队的会话配置时返回 false，按普通事件入队）
+   */
+  private coalesceSessionUpdate(event: SessionUpdateEvent): boolean {
+    const item = this.items.find((queued) => isSessionUpdate(queued.event));
+    if (!item || !isSessionUpdate(item.event)) return false;
+    const session = mergeRecords(item.event.session, event.session) as Partial<SessionConfig>;
+    item.event = { ...item.event, session };
+    return true;
+  }
+
+  private removeAt(index: number): void {
+    const [removed] = this.items.splice(index, 1);
+    this.audioMs -= removed.audioMs;
+    this.droppedCount++;
+  }
+}
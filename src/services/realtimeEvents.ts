@@ -0,0 +1,575 @@
+/**
+ * MiniMax Realtime API 事件协议
+ * 客户端 / 服务端事件的类型定义与入站事件校验
+ * server/proxy.js 通过 JSDoc import 复用这里的类型，保证两端线格式一致
+ */
+
+// ==================== 公共结构 ====================
+
+export type Modality = 'text' | 'audio';
+
+export type AudioFormat = 'pcm16';
+
+export interface FunctionTool {
+  type: 'function';
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;  // JSON Schema
+}
+
+export type ToolChoice = 'auto' | 'none' | 'required' | { type: 'function'; name: string };
+
+export interface ServerVadTurnDetection {
+  type: 'server_vad';
+  threshold?: number;            // 语音判定阈值（0-1）
+  prefix_padding_ms?: number;    // 语音开始前保留的音频（毫秒）
+  silence_duration_ms?: number;  // 静音多久判定为说话结束（毫秒）
+  create_response?: boolean;     // 说话结束后是否自动生成响应
+}
+
+export interface SessionConfig {
+  modalities: Modality[];
+  instructions: string;
+  voice: string;
+  input_audio_format: AudioFormat;
+  output_audio_format: AudioFormat;
+  temperature: number;
+  max_response_output_tokens: number | 'inf';
+  tools: FunctionTool[];
+  tool_choice: ToolChoice;
+  turn_detection: ServerVadTurnDetection | null;
+}
+
+export interface Session extends Partial<SessionConfig> {
+  id: string;
+  object?: string;
+  model?: string;
+}
+
+export type ContentPart =
+  | { type: 'input_text'; text: string }
+  | { type: 'input_audio'; audio?: string; transcript?: string | null }
+  | { type: 'text'; text: string }
+  | { type: 'audio'; audio?: string; transcript?: string | null };
+
+export type ItemStatus = 'in_progress' | 'completed' | 'incomplete';
+
+export interface MessageItem {
+  id?: string;
+  object?: string;
+  type: 'message';
+  status?: ItemStatus;
+  role: 'user' | 'assistant' | 'system';
+  content: ContentPart[];
+}
+
+export interface FunctionCallItem {
+  id?: string;
+  object?: string;
+  type: 'function_call';
+  status?: ItemStatus;
+  call_id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface FunctionCallOutputItem {
+  id?: string;
+  object?: string;
+  type: 'function_call_output';
+  status?: ItemStatus;
+  call_id: string;
+  output: string;
+}
+
+export type ConversationItem = MessageItem | FunctionCallItem | FunctionCallOutputItem;
+
+export interface ResponseUsage {
+  total_tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_asr_time?: number;
+  total_audio_characters?: number;
+}
+
+export type ResponseStatus = 'in_progress' | 'completed' | 'cancelled' | 'failed' | 'incomplete';
+
+export interface Response {
+  id: string;
+  object?: string;
+  status: ResponseStatus;
+  output?: ConversationItem[];
+  usage?: ResponseUsage | null;
+}
+
+export interface ResponseCreateParams {
+  modalities?: Modality[];
+  instructions?: string;
+  voice?: string;
+  temperature?: number;
+  max_output_tokens?: number | 'inf';
+  tools?: FunctionTool[];
+  tool_choice?: ToolChoice;
+  input?: ConversationItem[];
+}
+
+export interface ApiError {
+  type: string;
+  message: string;
+  code?: string;
+  param?: string | null;
+  event_id?: string | null;
+}
+
+// ==================== 客户端事件 ====================
+
+export interface SessionUpdateEvent {
+  type: 'session.update';
+  session: Partial<SessionConfig>;
+}
+
+export interface InputAudioBufferAppendEvent {
+  type: 'input_audio_buffer.append';
+  audio: string;
+}
+
+export interface InputAudioBufferCommitEvent {
+  type: 'input_audio_buffer.commit';
+}
+
+export interface InputAudioBufferClearEvent {
+  type: 'input_audio_buffer.clear';
+}
+
+export interface ConversationItemCreateEvent {
+  type: 'conversation.item.create';
+  previous_item_id?: string;
+  item: ConversationItem;
+}
+
+export interface ConversationItemTruncateEvent {
+  type: 'conversation.item.truncate';
+  item_id: string;
+  content_index: number;
+  audio_end_ms: number;
+}
+
+export interface ConversationItemDeleteEvent {
+  type: 'conversation.item.delete';
+  item_id: string;
+}
+
+export interface ResponseCreateEvent {
+  type: 'response.create';
+  response?: ResponseCreateParams;
+}
+
+export interface ResponseCancelEvent {
+  type: 'response.cancel';
+}
+
+/**
+ * 心跳事件（MiniMax 扩展，使用 event 字段而非 type）
+ */
+export interface TaskContinueEvent {
+  event: 'task_continue';
+  text: string;
+}
+
+export type ClientEvent =
+  | SessionUpdateEvent
+  | InputAudioBufferAppendEvent
+  | InputAudioBufferCommitEvent
+  | InputAudioBufferClearEvent
+  | ConversationItemCreateEvent
+  | ConversationItemTruncateEvent
+  | ConversationItemDeleteEvent
+  | ResponseCreateEvent
+  | ResponseCancelEvent
+  | TaskContinueEvent;
+
+export type ClientEventType =
+  | Exclude<ClientEvent, TaskContinueEvent>['type']
+  | TaskContinueEvent['event'];
+
+/**
+ * 获取客户端事件类型（兼容使用 event 字段的心跳事件）
+ */
+export function getClientEventType(event: ClientEvent): ClientEventType {
+  return 'type' in event ? event.type : event.event;
+}
+
+// ==================== 服务端事件 ====================
+
+export interface ProxyConnectedEvent {
+  type: 'proxy.connected';
+  message?: string;
+}
+
+export interface ErrorEvent {
+  type: 'error';
+  event_id?: string;
+  error: ApiError;
+}
+
+export interface SessionCreatedEvent {
+  type: 'session.created';
+  event_id?: string;
+  session: Session;
+}
+
+export interface SessionUpdatedEvent {
+  type: 'session.updated';
+  event_id?: string;
+  session: Session;
+}
+
+export interface ConversationCreatedEvent {
+  type: 'conversation.created';
+  event_id?: string;
+  conversation: { id: string; object?: string };
+}
+
+export interface ConversationItemCreatedEvent {
+  type: 'conversation.item.created';
+  event_id?: string;
+  previous_item_id?: string | null;
+  item: ConversationItem;
+}
+
+export interface ConversationItemDeletedEvent {
+  type: 'conversation.item.deleted';
+  event_id?: string;
+  item_id: string;
+}
+
+export interface ConversationItemTruncatedEvent {
+  type: 'conversation.item.truncated';
+  event_id?: string;
+  item_id: string;
+  content_index: number;
+  audio_end_ms: number;
+}
+
+export interface InputAudioTranscriptionCompletedEvent {
+  type: 'conversation.item.input_audio_transcription.completed';
+  event_id?: string;
+  item_id: string;
+  content_index: number;
+  transcript: string;
+}
+
+export interface InputAudioTranscriptionFailedEvent {
+  type: 'conversation.item.input_audio_transcription.failed';
+  event_id?: string;
+  item_id: string;
+  content_index: number;
+  error: ApiError;
+}
+
+export interface InputAudioBufferCommittedEvent {
+  type: 'input_audio_buffer.committed';
+  event_id?: string;
+  previous_item_id?: string | null;
+  item_id: string;
+}
+
+export interface InputAudioBufferClearedEvent {
+  type: 'input_audio_buffer.cleared';
+  event_id?: string;
+}
+
+export interface InputAudioBufferSpeechStartedEvent {
+  type: 'input_audio_buffer.speech_started';
+  event_id?: string;
+  audio_start_ms: number;
+  item_id: string;
+}
+
+export interface InputAudioBufferSpeechStoppedEvent {
+  type: 'input_audio_buffer.speech_stopped';
+  event_id?: string;
+  audio_end_ms: number;
+  item_id: string;
+}
+
+export interface ResponseCreatedEvent {
+  type: 'response.created';
+  event_id?: string;
+  response: Response;
+}
+
+export interface ResponseDoneEvent {
+  type: 'response.done';
+  event_id?: string;
+  response: Response;
+}
+
+export interface ResponseOutputItemAddedEvent {
+  type: 'response.output_item.added';
+  event_id?: string;
+  response_id: string;
+  output_index: number;
+  item: ConversationItem;
+}
+
+export interface ResponseOutputItemDoneEvent {
+  type: 'response.output_item.done';
+  event_id?: string;
+  response_id: string;
+  output_index: number;
+  item: ConversationItem;
+}
+
+export interface ResponseContentPartAddedEvent {
+  type: 'response.content_part.added';
+  event_id?: string;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  part: ContentPart;
+}
+
+export interface ResponseContentPartDoneEvent {
+  type: 'response.content_part.done';
+  event_id?: string;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  part: ContentPart;
+}
+
+/** 流式输出事件的公共定位字段 */
+interface ResponseContentRef {
+  event_id?: string;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+}
+
+export interface ResponseTextDeltaEvent extends ResponseContentRef {
+  type: 'response.text.delta';
+  delta: string;
+}
+
+export interface ResponseTextDoneEvent extends ResponseContentRef {
+  type: 'response.text.done';
+  text: string;
+}
+
+export interface ResponseAudioTranscriptDeltaEvent extends ResponseContentRef {
+  type: 'response.audio_transcript.delta';
+  delta: string;
+}
+
+export interface ResponseAudioTranscriptDoneEvent extends ResponseContentRef {
+  type: 'response.audio_transcript.done';
+  transcript: string;
+}
+
+export interface ResponseAudioDeltaEvent extends ResponseContentRef {
+  type: 'response.audio.delta';
+  delta: string;
+}
+
+export interface ResponseAudioDoneEvent extends ResponseContentRef {
+  type: 'response.audio.done';
+}
+
+export interface ResponseFunctionCallArgumentsDeltaEvent {
+  type: 'response.function_call_arguments.delta';
+  event_id?: string;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  call_id: string;
+  delta: string;
+}
+
+export interface ResponseFunctionCallArgumentsDoneEvent {
+  type: 'response.function_call_arguments.done';
+  event_id?: string;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  call_id: string;
+  name?: string;
+  arguments: string;
+}
+
+export interface RateLimitsUpdatedEvent {
+  type: 'rate_limits.updated';
+  event_id?: string;
+  rate_limits: Array<{ name: string; limit: number; remaining: number; reset_seconds: number }>;
+}
+
+export type ServerEvent =
+  | ProxyConnectedEvent
+  | ErrorEvent
+  | SessionCreatedEvent
+  | SessionUpdatedEvent
+  | ConversationCreatedEvent
+  | ConversationItemCreatedEvent
+  | ConversationItemDeletedEvent
+  | ConversationItemTruncatedEvent
+  | InputAudioTranscriptionCompletedEvent
+  | InputAudioTranscriptionFailedEvent
+  | InputAudioBufferCommittedEvent
+  | InputAudioBufferClearedEvent
+  | InputAudioBufferSpeechStartedEvent
+  | InputAudioBufferSpeechStoppedEvent
+  | ResponseCreatedEvent
+  | ResponseDoneEvent
+  | ResponseOutputItemAddedEvent
+  | ResponseOutputItemDoneEvent
+  | ResponseContentPartAddedEvent
+  | ResponseContentPartDoneEvent
+  | ResponseTextDeltaEvent
+  | ResponseTextDoneEvent
+  | ResponseAudioTranscriptDeltaEvent
+  | ResponseAudioTranscriptDoneEvent
+  | ResponseAudioDeltaEvent
+  | ResponseAudioDoneEvent
+  | ResponseFunctionCallArgumentsDeltaEvent
+  | ResponseFunctionCallArgumentsDoneEvent
+  | RateLimitsUpdatedEvent;
+
+export type ServerEventType = ServerEvent['type'];
+
+// ==================== 音频格式 ====================
+
+export const PCM16_SAMPLE_RATE = 24000;
+
+/**
+ * 由 Base64 长度计算 PCM16 单声道音频时长（毫秒）
+ */
+export function getPcm16DurationMs(base64: string, sampleRate = PCM16_SAMPLE_RATE): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const bytes = (base64.length * 3) / 4 - padding;
+  return (bytes / 2 / sampleRate) * 1000;
+}
+
+// ==================== 入站事件校验 ====================
+
+// item：带 type 的对象，message 还需有 role 和 content 数组
+type FieldKind = 'string' | 'number' | 'object' | 'array' | 'item';
+
+/**
+ * 每种服务端事件的必填字段，嵌套字段用点号路径（如 response.id）
+ * 只校验客户端实际依赖的字段，其余字段原样透传
+ */
+const SERVER_EVENT_FIELDS: Record<ServerEventType, Record<string, FieldKind>> = {
+  'proxy.connected': {},
+  'error': { error: 'object' },
+  'session.created': { session: 'object' },
+  'session.updated': { session: 'object' },
+  'conversation.created': { conversation: 'object' },
+  'conversation.item.created': { item: 'item' },
+  'conversation.item.deleted': { item_id: 'string' },
+  'conversation.item.truncated': { item_id: 'string', audio_end_ms: 'number' },
+  'conversation.item.input_audio_transcription.completed': { item_id: 'string', transcript: 'string' },
+  'conversation.item.input_audio_transcription.failed': { item_id: 'string' },
+  'input_audio_buffer.committed': { item_id: 'string' },
+  'input_audio_buffer.cleared': {},
+  'input_audio_buffer.speech_started': {},
+  'input_audio_buffer.speech_stopped': {},
+  'response.created': { response: 'object', 'response.id': 'string' },
+  'response.done': { response: 'object', 'response.id': 'string' },
+  'response.output_item.added': { item: 'item' },
+  'response.output_item.done': { item: 'item' },
+  'response.content_part.added': { part: 'object' },
+  'response.content_part.done': { part: 'object' },
+  'response.text.delta': { response_id: 'string', item_id: 'string', delta: 'string' },
+  'response.text.done': { response_id: 'string', item_id: 'string', text: 'string' },
+  'response.audio_transcript.delta': { response_id: 'string', item_id: 'string', delta: 'string' },
+  'response.audio_transcript.done': { response_id: 'string', item_id: 'string', transcript: 'string' },
+  'response.audio.delta': { response_id: 'string', item_id: 'string', delta: 'string' },
+  'response.audio.done': { response_id: 'string', item_id: 'string' },
+  'response.function_call_arguments.delta': { response_id: 'string', item_id: 'string', call_id: 'string', delta: 'string' },
+  'response.function_call_arguments.done': { response_id: 'string', item_id: 'string', call_id: 'string', arguments: 'string' },
+  'rate_limits.updated': { rate_limits: 'array' },
+};
+
+export type ParsedServerEvent =
+  | { kind: 'event'; event: ServerEvent }
+  | { kind: 'unknown'; type: string; raw: Record<string, unknown> }
+  | { kind: 'invalid'; message: string; raw: unknown };
+
+/**
+ * 是否为普通对象（不含 null 和数组）
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isRecord(value);
+    case 'item':
+      if (!isRecord(value) || typeof value.type !== 'string') return false;
+      return value.type !== 'message' || (typeof value.role === 'string' && Array.isArray(value.content));
+    default:
+      return typeof value === kind;
+  }
+}
+
+function getField(record: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), record);
+}
+
+function isKnownServerEventType(type: string): type is ServerEventType {
+  return Object.prototype.hasOwnProperty.call(SERVER_EVENT_FIELDS, type);
+}
+
+/**
+ * 校验服务端事件
+ * @param raw JSON.parse 后的原始数据
+ */
+export function validateServerEvent(raw: unknown): ParsedServerEvent {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { kind: 'invalid', message: '事件不是 JSON 对象', raw };
+  }
+
+  const record = raw as Record<string, unknown>;
+  if (typeof record.type !== 'string') {
+    return { kind: 'invalid', message: '事件缺少 type 字段', raw };
+  }
+
+  const type = record.type;
+  if (!isKnownServerEventType(type)) {
+    return { kind: 'unknown', type, raw: record };
+  }
+
+  const fields = SERVER_EVENT_FIELDS[type];
+  for (const field of Object.keys(fields)) {
+    if (!matchesKind(getField(record, field), fields[field])) {
+      return {
+        kind: 'invalid',
+        message: `${type} 事件字段 ${field} 应为 ${fields[field]}`,
+        raw,
+      };
+    }
+  }
+
+  return { kind: 'event', event: record as unknown as ServerEvent };
+}
+
+/**
+ * 解析 WebSocket 文本帧
+ * @param data WebSocket 收到的原始文本
+ */
+export function parseServerEvent(data: string): ParsedServerEvent {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (e) {
+    return { kind: 'invalid', message: `JSON 解析失败: ${e instanceof Error ? e.message : String(e)}`, raw: data };
+  }
+  return validateServerEvent(raw);
+}
@@ -0,0 +1,270 @@
+import { RealtimeConfig, RealtimeEventMap, RealtimeEventName, RealtimeService } from './realtimeService';
+import { ClientEvent, getPcm16DurationMs } from './realtimeEvents';
+import { createMockTransport } from '../mock/mockTransport';
+import { getMockScenario } from '../mock/scenarios';
+import type { MockScenario } from '../mock/mockBackend';
+
+const FAST_TIMING = { eventDelayMs: 0, chunkDelayMs: 0 };
+
+// 去掉模拟后端的发送间隔，测试只关心事件顺序
+function getFastScenario(name: string): MockScenario {
+  const scenario = getMockScenario(name);
+  if (!scenario) throw new Error(`未找到场景 ${name}`);
+  return { ...scenario, timing: FAST_TIMING };
+}
+
+const BASIC_REPLIES = getFastScenario('basic').turns.map((turn) => {
+  const [step] = turn.steps;
+  return step.type === 'reply' ? step.text : '';
+});
+
+// 等待下一次满足条件的事件
+function waitFor<K extends RealtimeEventName>(
+  service: RealtimeService,
+  event: K,
+  predicate: (...args: RealtimeEventMap[K]) => boolean = () => true
+): Promise<RealtimeEventMap[K]> {
+  return new Promise((resolve) => {
+    const unsubscribe = service.on(event, (...args) => {
+      if (!predicate(...args)) return;
+      unsubscribe();
+      resolve(args);
+    });
+  });
+}
+
+describe('RealtimeService + 模拟后端', () => {
+  let service: RealtimeService;
+  let clientEvents: ClientEvent[];
+
+  function createService(scenario: MockScenario, config: Partial<RealtimeConfig> = {}): RealtimeService {
+    service = new RealtimeService({ apiKey: 'test', transport: createMockTransport(scenario), ...config });
+    clientEvents = [];
+    service.on('clientEvent', (event) => clientEvents.push(event));
+    return service;
+  }
+
+  afterEach(() => {
+    service.disconnect();
+  });
+
+  it('basic 场景按顺序回调：会话创建、文本增量、音频增量、响应完成', async () => {
+    createService(getFastScenario('basic'));
+
+    const sequence: string[] = [];
+    let text = '';
+    service.on('serverEvent', (event) => {
+      if (event.type === 'session.created') sequence.push('sessionCreated');
+    });
+    service.on('responseStart', () => sequence.push('responseStart'));
+    service.on('textDelta', (delta) => {
+      text += delta;
+      sequence.push('textDelta');
+    });
+    service.on('audioDelta', () => sequence.push('audioDelta'));
+    service.on('textDone', () => sequence.push('textDone'));
+    service.on('audioDone', () => sequence.push('audioDone'));
+
+    const responseDone = new Promise<string>((resolve) => {
+      service.on('responseDone', (usage, responseId) => {
+        sequence.push('responseDone');
+        resolve(responseId);
+      });
+    });
+
+    await service.connect();
+    service.sendText('Hello, I want to practice my English.');
+    const responseId = await responseDone;
+
+    // 相邻重复的增量合并后比较
+    const collapsed = sequence.filter((name, index) => name !== sequence[index - 1]);
+    expect(collapsed.slice(0, 2)).toEqual(['sessionCreated', 'responseStart']);
+    expect(collapsed).toContain('textDelta');
+    expect(collapsed).toContain('audioDelta');
+    expect(collapsed.slice(-3)).toEqual(['textDone', 'audioDone', 'responseDone']);
+    expect(sequence.indexOf('textDelta')).toBeLessThan(sequence.indexOf('audioDelta'));
+    expect(text).toBe(BASIC_REPLIES[0]);
+    expect(responseId).toMatch(/\S/);
+  });
+
+  it('连接建立前发送的消息进入出站队列，连接后按顺序发出', async () => {
+    createService(getFastScenario('basic'));
+
+    const responseDone = waitFor(service, 'responseDone');
+    const textDone = waitFor(service, 'textDone');
+    service.sendText('Hello');
+    expect(clientEvents).toHaveLength(0);
+
+    await service.connect();
+    await responseDone;
+    expect(clientEvents.map((event) => ('type' in event ? event.type : event.event))).toEqual([
+      'session.update',
+      'response.create',
+    ]);
+    expect((await textDone)[0]).toBe(BASIC_REPLIES[0]);
+  });
+
+  it('工具调用：执行处理函数、回传 function_call_output，并自动继续生成回复', async () => {
+    createService(getFastScenario('tool-call'));
+    const handler = jest.fn(({ timezone }: { timezone?: string }) => ({ time: '12:00', timezone }));
+    service.registerTool({
+      name: 'get_current_time',
+      description: '获取当前时间',
+      parameters: { type: 'object', properties: { timezone: { type: 'string' } } },
+      handler,
+    });
+
+    const toolCallDone = waitFor(service, 'toolCallDone');
+    const followUp = waitFor(service, 'textDone');
+    await service.connect();
+    service.sendText('What time is it now?');
+
+    const [call] = await toolCallDone;
+    expect(handler).toHaveBeenCalledWith({ timezone: 'Asia/Shanghai' });
+    expect(call).toMatchObject({ name: 'get_current_time', status: 'completed', output: '{"time":"12:00","timezone":"Asia/Shanghai"}' });
+    expect(clientEvents).toContainEqual({
+      type: 'conversation.item.create',
+      item: expect.objectContaining({ type: 'function_call_output', call_id: call.callId, output: call.output }),
+    });
+
+    const [text] = await followUp;
+    expect(text).toContain('I checked the clock for you.');
+    expect(clientEvents.filter((event) => 'type' in event && event.type === 'response.create')).toHaveLength(2);
+  });
+
+  it('工具超时按失败回传，不阻塞后续回复', async () => {
+    createService(getFastScenario('tool-call'), { toolTimeout: 20 });
+    service.registerTool({
+      name: 'get_current_time',
+      description: '永不返回',
+      parameters: { type: 'object' },
+      handler: () => new Promise(() => {}),
+    });
+
+    const toolCallDone = waitFor(service, 'toolCallDone');
+    const followUp = waitFor(service, 'textDone');
+    await service.connect();
+    service.sendText('What time is it now?');
+
+    const [call] = await toolCallDone;
+    expect(call.status).toBe('failed');
+    expect(call.error).toContain('超时');
+    expect(JSON.parse(call.output!)).toEqual({ error: call.error });
+    expect((await followUp)[0]).toContain('I checked the clock for you.');
+  });
+
+  it('打断后丢弃旧响应的后续增量，新响应正常回调', async () => {
+    createService(getFastScenario('basic'));
+    await service.connect();
+
+    const deltas: string[] = [];
+    service.on('textDelta', (delta, ref) => {
+      deltas.push(ref.responseId);
+      // 收到第一个增量就打断
+      if (deltas.length === 1) service.interrupt();
+    });
+    const textDone: string[] = [];
+    service.on('textDone', (text) => textDone.push(text));
+
+    const firstDone = waitFor(service, 'responseDone');
+    service.sendText('Hello');
+    const [, stale] = await firstDone;
+    expect(deltas).toEqual([stale]);
+    expect(textDone).toEqual([]);
+
+    const secondDone = waitFor(service, 'responseDone');
+    service.sendText('I go to the park with my friend yesterday.');
+    const [, fresh] = await secondDone;
+    expect(fresh).not.toBe(stale);
+    expect(deltas.slice(1).every((responseId) => responseId === fresh)).toBe(true);
+    expect(textDone).toEqual([BASIC_REPLIES[1]]);
+  });
+
+  it('打断已播放的回复：服务端按播放位置截断，后续轮次的上下文只含听到的部分', async () => {
+    createService(getFastScenario('basic'));
+    await service.connect();
+
+    let itemId = '';
+    let audioMs = 0;
+    service.on('audioDelta', (audio, ref) => {
+      itemId = ref.itemId;
+      audioMs += getPcm16DurationMs(audio);
+    });
+    const firstDone = waitFor(service, 'responseDone');
+    service.sendText('Hi');
+    await firstDone;
+
+    const truncated = waitFor(service, 'itemTruncated');
+    const acked = waitFor(service, 'serverEvent', (event) => event.type === 'conversation.item.truncated');
+    service.interrupt({ itemId, playedMs: audioMs / 2 });
+
+    const [info] = await truncated;
+    await acked;
+    expect(info.itemId).toBe(itemId);
+    expect(info.fullText).toBe(BASIC_REPLIES[0]);
+    expect(info.fullText.startsWith(info.text)).toBe(true);
+    expect(info.text.length).toBeLessThan(info.fullText.length / 2 + 1);
+    expect(service.getConversationItems().find((item) => item.id === itemId)).toMatchObject({ text: info.text, status: 'incomplete' });
+
+    // 模拟后端的 input_tokens 为上下文文本长度：截断后的回复只计入一半
+    const secondDone = waitFor(service, 'responseDone');
+    service.sendText('Bye');
+    const [usage] = await secondDone;
+    expect(usage?.input_tokens).toBe('Hi'.length + Math.round(BASIC_REPLIES[0].length / 2) + 'Bye'.length);
+  });
+
+  it('意外断线后重连：断线期间的消息排队发送，历史对话不带旧 ID 回放并映射到新 ID', async () => {
+    const scenario: MockScenario = {
+      name: 'drop',
+      timing: FAST_TIMING,
+      turns: [
+        { steps: [{ type: 'reply', text: 'First answer.', audioMs: 200 }] },
+        { steps: [{ type: 'disconnect', code: 4000, reason: 'drop' }] },
+      ],
+    };
+    createService(scenario, { reconnect: { baseDelay: 10, jitter: 0 } });
+    await service.connect();
+
+    const firstDone = waitFor(service, 'responseDone');
+    service.sendText('one');
+    await firstDone;
+
+    const disconnected = jest.fn();
+    service.on('disconnected', disconnected);
+    const renamed = new Map<string, string>();
+    service.on('itemIdChanged', (oldId, newId) => {
+      renamed.set(oldId, newId);
+    });
+    // 断线后收到的对话项 ID 都来自重连后的新会话
+    const sessionItemIds = new Set<string>();
+    service.on('serverEvent', (event) => {
+      if ('item' in event && event.item.id) sessionItemIds.add(event.item.id);
+    });
+
+    // 第二轮回复中途断线，重连等待期间再发一条
+    const reconnecting = waitFor(service, 'reconnecting');
+    service.sendText('two');
+    await reconnecting;
+    const beforeReconnect = service.getConversationItems().map((item) => item.id);
+    const reconnected = waitFor(service, 'reconnected');
+    const replyAfterReconnect = waitFor(service, 'textDone');
+    const threeId = service.sendText('three');
+    await reconnected;
+    await replyAfterReconnect;
+
+    expect(disconnected).not.toHaveBeenCalled();
+    const restoredEvents = clientEvents.filter(
+      (event): event is Extract<ClientEvent, { type: 'conversation.item.create' }> =>
+        'type' in event && event.type === 'conversation.item.create'
+    );
+    expect(restoredEvents.map((event) => event.item.id)).toEqual([undefined, undefined, undefined]);
+
+    // 上一次连接的对话项全部映射到新会话分配的 ID，断线期间新建的消息沿用自己的 ID
+    const items = service.getConversationItems();
+    expect(items.map((item) => item.text)).toEqual(['one', 'First answer.', 'two', 'three', 'First answer.']);
+    items.forEach((item) => expect(sessionItemIds.has(item.id)).toBe(true));
+    expect(beforeReconnect).toHaveLength(3);
+    beforeReconnect.forEach((id) => expect(sessionItemIds.has(renamed.get(id) ?? id)).toBe(true));
+    expect(renamed.has(threeId)).toBe(false);
+  });
+});
@@ -3,6 +3,40 @@
  * 基于 WebSocket 的实时语音对话服务
  */
 
+import {
+  ClientEvent,
+  ConversationItem,
+  ConversationItemCreatedEvent,
+  ResponseFunctionCallArgumentsDoneEvent,
+  InputAudioBufferSpeechStartedEvent,
+  InputAudioBufferSpeechStoppedEvent,
+  Modality,
+  ResponseUsage,
+  ServerEvent,
+  ServerVadTurnDetection,
+  SessionConfig,
+  ToolChoice,
+  getClientEventType,
+  getPcm16DurationMs,
+  parseServerEvent,
+} from './realtimeEvents';
+import { ToolArgumentsError, ToolCall, ToolDefinition, ToolRegistry } from './toolRegistry';
+import { EventHandler, TypedEmitter, Unsubscribe } from './typedEmitter';
+import { OutboundQueue, OutboundQueueOptions } from './outboundQueue';
+import { ConversationMirror, MirrorItem } from './conversationMirror';
+import type { LatencyTracker } from './latencyTracker';
+import type { EventRecorder } from './eventRecorder';
+import { RealtimeTransport, TransportCloseEvent, TransportFactory, createWebSocketTransport } from './transport';
+import { createLogger } from './logger';
+
+export type { ResponseUsage } from './realtimeEvents';
+export type { ToolCall, ToolDefinition } from './toolRegistry';
+export type { MirrorItem } from './conversationMirror';
+
+const log = createLogger('realtime');
+const proxyLog = createLogger('proxy');
+const vadLog = createLogger('vad');
+
 export interface RealtimeConfig {
   apiKey: string;
   model?: string;
@@ -10,50 +44,207 @@ export interface RealtimeConfig {
   instructions?: string;
   useProxy?: boolean;  // 是否使用本地代理（解决浏览器认证问题）
   proxyUrl?: string;   // 代理服务器地址
+  reconnect?: Partial<ReconnectPolicy>;  // 断线重连策略
+  liveness?: Partial<LivenessPolicy>;    // 连接超时与存活检测
+  outboundQueue?: Partial<OutboundQueueOptions>;  // 出站队列配置
+  turnDetection?: TurnDetectionMode;  // 轮次检测：本地 VAD 或服务端 VAD
+  serverVad?: Omit<ServerVadTurnDetection, 'type'>;  // 服务端 VAD 参数
+  truncation?: TruncationStrategy;  // 打断后截断服务端历史的方式
+  transport?: TransportFactory;  // 传输层，默认为浏览器 WebSocket（可替换为离线模拟后端）
+  modalities?: Modality[];  // 回复模态，默认文本 + 语音；仅文本时不合成语音
+  toolTimeout?: number;  // 单次工具执行的超时（毫秒），超时按失败回传
+}
+
+/**
+ * 打断后截断助手回复的方式
+ * - server: 发送 conversation.item.truncate，服务端未确认时回退到 local
+ * - local:  删除原对话项，并以用户实际听到的文本重新创建
+ */
+export type TruncationStrategy = 'server' | 'local';
+
+// 流式输出所属的响应和对话项
+export interface ResponseRef {
+  responseId: string;
+  itemId: string;
+}
+
+// 被打断的助手回复
+export interface TruncationInfo {
+  itemId: string;
+  audioEndMs: number;  // 实际播放到的位置（毫秒）
+  text: string;        // 用户实际听到的部分
+  fullText: string;    // 完整回复
+}
+
+/**
+ * 轮次检测模式
+ * - client: 本地 VAD 检测静音后手动 commitAudio + createResponse
+ * - server: 由服务端检测说话开始/结束并自动提交、生成响应
+ */
+export type TurnDetectionMode = 'client' | 'server';
+
+export const DEFAULT_SERVER_VAD: Omit<ServerVadTurnDetection, 'type'> = {
+  threshold: 0.5,
+  prefix_padding_ms: 300,
+  silence_duration_ms: 1500,
+  create_response: true,
+};
+
+// 出站背压状态
+export interface BackpressureState {
+  active: boolean;         // 是否处于拥塞状态
+  bufferedAmount: number;  // WebSocket 未发出的字节数
+  queuedEvents: number;    // 出站队列中的事件数
+  queuedAudioMs: number;   // 出站队列中的音频时长（毫秒）
+  overflow: boolean;       // 队列只剩必须保留的事件且超出上限
+}
+
+// 断线重连策略
+export interface ReconnectPolicy {
+  maxAttempts: number;          // 最大重连次数
+  baseDelay: number;            // 首次重连延迟（毫秒），之后按指数增长
+  maxDelay: number;             // 单次延迟上限（毫秒）
+  jitter: number;               // 随机抖动比例（0-1）
+  restoreConversation: boolean; // 重连后是否回放历史对话
 }
 
-export interface RealtimeCallbacks {
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelay: 1000,
+  maxDelay: 15000,
+  jitter: 0.3,
+  restoreConversation: true,
+};
+
+// 连接超时与存活检测（毫秒）
+export interface LivenessPolicy {
+  connectTimeout: number;     // 传输建立（onopen）的超时
+  handshakeTimeout: number;   // 传输建立后等待 proxy.connected 的超时
+  heartbeatInterval: number;  // 客户端空闲（无出站消息、无进行中的响应）多久后发送保活心跳
+  livenessWindow: number;     // 多久收不到服务端消息时发送探测
+  probeTimeout: number;       // 探测后仍无服务端消息，判定为半开连接并重连
+}
+
+export const DEFAULT_LIVENESS_POLICY: LivenessPolicy = {
+  connectTimeout: 10000,
+  handshakeTimeout: 10000,
+  heartbeatInterval: 60000,  // 小于服务端 120 秒的空闲超时
+  livenessWindow: 30000,
+  probeTimeout: 10000,
+};
+
+/**
+ * 事件表：事件名 → 处理函数参数，通过 on / once / off 订阅
+ */
+export interface RealtimeEventMap {
   // 连接状态
-  onConnected?: () => void;
-  onDisconnected?: () => void;
+  connected: [];
+  disconnected: [];
+  reconnecting: [attempt: number, delay: number];  // 第 attempt 次重连将在 delay 毫秒后开始
+  reconnected: [];  // 重连成功，已恢复会话配置和历史
+
+  // 原始事件（已校验的服务端事件 / 实际发出的客户端事件）
+  serverEvent: [event: ServerEvent];
+  clientEvent: [event: ClientEvent];
 
   // 用户语音 ASR
-  onUserTranscript?: (transcript: string) => void;
+  userTranscript: [transcript: string, itemId: string];
+
+  // 服务端 VAD（turnDetection 为 server 时）
+  speechStarted: [event: InputAudioBufferSpeechStartedEvent];
+  speechStopped: [event: InputAudioBufferSpeechStoppedEvent];
 
   // AI 响应
-  onResponseStart?: () => void;
-  onTextDelta?: (delta: string) => void;
-  onTextDone?: (text: string) => void;
-  onAudioDelta?: (audioBase64: string) => void;
-  onAudioDone?: () => void;
-  onAudioTranscriptDelta?: (delta: string) => void;
-  onAudioTranscriptDone?: (transcript: string) => void;
-  onResponseDone?: (usage: ResponseUsage | null) => void;
+  // 已通过 cancelLocal 放弃的响应不会再触发 delta / done 事件
+  responseStart: [responseId: string];
+  textDelta: [delta: string, ref: ResponseRef];
+  textDone: [text: string, ref: ResponseRef];
+  audioDelta: [audioBase64: string, ref: ResponseRef];
+  audioDone: [ref: ResponseRef];
+  audioTranscriptDelta: [delta: string, ref: ResponseRef];
+  audioTranscriptDone: [transcript: string, ref: ResponseRef];
+  responseDone: [usage: ResponseUsage | null, responseId: string];
+
+  // 对话项镜像
+  conversationChange: [items: MirrorItem[]];
+  itemIdChanged: [oldId: string, newId: string];  // 服务端未沿用客户端指定的 ID
+  itemTruncated: [info: TruncationInfo];  // 被打断的回复已截断为实际听到的部分
+
+  // 工具调用
+  toolCallStart: [call: ToolCall];
+  toolCallDone: [call: ToolCall];
+
+  // 出站背压（拥塞时可降低或暂停采集）
+  backpressure: [state: BackpressureState];
 
   // 错误
-  onError?: (error: { type: string; message: string; code?: string }) => void;
+  error: [error: { type: string; message: string; code?: string }];
 }
 
-export interface ResponseUsage {
-  total_tokens: number;
-  input_tokens: number;
-  output_tokens: number;
-  total_asr_time?: number;
-  total_audio_characters?: number;
-}
+export type RealtimeEventName = keyof RealtimeEventMap;
+
+/**
+ * 兼容旧接口的回调对象：每个事件对应一个 on + 首字母大写的回调，如 textDelta → onTextDelta
+ */
+export type RealtimeCallbacks = {
+  [K in RealtimeEventName as `on${Capitalize<K>}`]?: EventHandler<RealtimeEventMap[K]>;
+};
 
 export class RealtimeService {
-  private ws: WebSocket | null = null;
+  private ws: RealtimeTransport | null = null;
   private config: RealtimeConfig;
-  private callbacks: RealtimeCallbacks = {};
+  private emitter = new TypedEmitter<RealtimeEventMap>();
+  private callbackSubscriptions: Unsubscribe[] = [];  // setCallbacks 注册的订阅
   private isConnected = false;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 3;
+  private reconnectPolicy: ReconnectPolicy;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private isReconnecting = false;
   private connectResolve: (() => void) | null = null;
   private connectReject: ((error: Error) => void) | null = null;
   private manualDisconnect = false;  // 标记是否为用户主动断开
-  private heartbeatInterval: NodeJS.Timeout | null = null;  // 心跳定时器
-  private readonly HEARTBEAT_INTERVAL = 60000;  // 心跳间隔：60秒（小于120秒超时）
+  private connectTimer: NodeJS.Timeout | null = null;  // 连接 / 握手超时
+  private livenessPolicy: LivenessPolicy;
+  private livenessTimer: NodeJS.Timeout | null = null;  // 心跳与存活检测
+  private lastInboundAt = 0;   // 最近一次收到服务端消息的时间
+  private lastOutboundAt = 0;  // 最近一次发出客户端消息的时间
+  private probeSentAt: number | null = null;  // 存活探测发出的时间，收到任意服务端消息后清除
+  private readonly LIVENESS_CHECK_INTERVAL = 1000;  // 检查间隔（毫秒）
+
+  // 工具调用
+  private tools = new ToolRegistry();
+  private toolChoice: ToolChoice = 'auto';
+  private functionCallArgs = new Map<string, { name: string; arguments: string }>();  // item_id → 流式参数
+  private pendingToolCalls = new Map<string, Promise<void>[]>();  // response_id → 执行中的工具
+
+  // 出站队列与背压
+  private outbound: OutboundQueue;
+  private isBackpressured = false;
+  private drainTimer: NodeJS.Timeout | null = null;
+  private readonly BACKPRESSURE_HIGH_WATER = 256 * 1024;  // 超过该缓冲量进入拥塞状态（字节）
+  private readonly BACKPRESSURE_LOW_WATER = 64 * 1024;    // 回落到该缓冲量以下解除拥塞（字节）
+  private readonly DRAIN_CHECK_INTERVAL = 50;             // 拥塞期间检查缓冲区的间隔（毫秒）
+
+  // 会话恢复
+  private sessionConfig: Partial<SessionConfig>;  // 当前生效的会话配置，重连后重新下发
+
+  // 对话项镜像
+  private mirror = new ConversationMirror();
+  private pendingClientItems: Array<{ id: string; key: string }> = [];  // 等待服务端确认的客户端对话项
+  private staleItemIds = new Set<string>();  // 上一次连接的对话项 ID，当前会话不认识，可能与新分配的 ID 重复
+
+  // 响应关联
+  private activeResponseId: string | null = null;
+  private cancelledResponses = new Set<string>();  // 本地已放弃、忽略后续数据的响应
+
+  // 延迟打点与事件录制
+  private latency: LatencyTracker | null = null;
+  private recorder: EventRecorder | null = null;
+
+  // 打断截断
+  private audioMsByItem = new Map<string, number>();  // item_id → 已收到的音频时长
+  private truncations = new Map<string, { audioEndMs: number; acked: boolean; finalized: boolean }>();
+  private readonly TRUNCATE_ACK_TIMEOUT = 1500;  // 等待 conversation.item.truncated 的时间（毫秒）
 
   constructor(config: RealtimeConfig) {
     this.config = {
@@ -61,8 +252,29 @@ export class RealtimeService {
       voice: 'male-qn-qingse',
       useProxy: true,  // 默认使用代理
       proxyUrl: 'ws://localhost:8080',
+      turnDetection: 'client',
+      truncation: 'server',
+      toolTimeout: 15000,
       ...config,
     };
+    this.reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...config.reconnect };
+    this.livenessPolicy = { ...DEFAULT_LIVENESS_POLICY, ...config.liveness };
+    this.outbound = new OutboundQueue(config.outboundQueue);
+    this.sessionConfig = {
+      modalities: this.config.modalities || ['text', 'audio'],
+      instructions: this.config.instructions || '你是一位友善的助手。',
+      voice: this.config.voice,
+      input_audio_format: 'pcm16',
+      output_audio_format: 'pcm16',
+      temperature: 0.7,
+    };
+    if (this.config.turnDetection === 'server') {
+      this.sessionConfig.turn_detection = {
+        type: 'server_vad',
+        ...DEFAULT_SERVER_VAD,
+        ...config.serverVad,
+      };
+    }
   }
 
   // ==================== 连接管理 ====================
@@ -73,56 +285,55 @@ export class RealtimeService {
         resolve();
         return;
       }
+      // 上一次 disconnect() 的旧 socket 可能尚未触发 onclose（届时会被当作已替换的 socket 忽略），在此清除标记
+      this.manualDisconnect = false;
 
       // 根据配置选择连接方式
       let url: string;
       if (this.config.useProxy) {
         // 使用本地代理服务器（推荐，解决浏览器认证问题）
         url = `${this.config.proxyUrl}?apiKey=${encodeURIComponent(this.config.apiKey)}&model=${this.config.model}`;
-        console.log('🔌 通过代理连接 Realtime API...');
+        proxyLog.info('🔌 通过代理连接 Realtime API...');
       } else {
         // 直连（仅用于测试，浏览器可能无法正常认证）
         url = `wss://api.minimaxi.com/ws/v1/realtime?model=${this.config.model}`;
-        console.log('🔌 直接连接 Realtime API...');
+        log.info('🔌 直接连接 Realtime API...');
       }
 
+      let ws: RealtimeTransport;
       try {
-        this.ws = new WebSocket(url);
+        ws = (this.config.transport || createWebSocketTransport)(url);
       } catch (e) {
-        console.error('WebSocket 创建失败:', e);
+        log.error('❌ WebSocket 创建失败:', e);
         reject(e);
+        if (this.isReconnecting) {
+          this.scheduleReconnect();
+        }
         return;
       }
+      this.ws = ws;
 
       // 保存 resolve/reject 以便在收到 proxy.connected 事件时调用
       this.connectResolve = resolve;
       this.connectReject = reject;
+      this.startConnectTimer(ws, this.livenessPolicy.connectTimeout, '连接超时');
 
-      this.ws.onopen = () => {
-        console.log('✅ WebSocket 已连接');
+      ws.onopen = () => {
+        log.info('✅ WebSocket 已连接');
         // 如果使用代理，等待 proxy.connected 事件确认
         if (!this.config.useProxy) {
-          this.isConnected = true;
-          this.reconnectAttempts = 0;
-          this.initSession();
-          this.callbacks.onConnected?.();
-          this.connectResolve?.();
-          this.connectResolve = null;
-          this.connectReject = null;
+          this.handleConnected();
+        } else {
+          this.startConnectTimer(ws, this.livenessPolicy.handshakeTimeout, '等待代理握手超时');
         }
       };
 
-      this.ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          this.handleServerEvent(data);
-        } catch (e) {
-          console.error('❌ 解析消息失败:', e);
-        }
+      ws.onmessage = (data) => {
+        this.handleMessage(data);
       };
 
-      this.ws.onerror = (error) => {
-        console.error('❌ WebSocket 错误:', error);
+      ws.onerror = (error) => {
+        log.error('❌ WebSocket 错误:', error);
         const errorMsg = this.config.useProxy
           ? 'WebSocket 连接失败，请确保代理服务器已启动 (node server/proxy.js)'
           : 'WebSocket 连接失败';
@@ -131,97 +342,438 @@ export class RealtimeService {
         this.connectReject = null;
       };
 
-      this.ws.onclose = (event) => {
-        console.log('🔌 WebSocket 已断开', event.code, event.reason);
-        this.isConnected = false;
-        this.callbacks.onDisconnected?.();
+      ws.onclose = (event) => this.handleClose(ws, event);
+    });
+  }
 
-        // 如果是用户主动断开，不尝试重连
-        if (this.manualDisconnect) {
-          console.log('📴 用户主动断开，不进行重连');
-          this.manualDisconnect = false;
-          return;
-        }
+  /**
+   * 传输关闭：清理状态，意外断开时安排重连
+   */
+  private handleClose(ws: RealtimeTransport, event: TransportCloseEvent): void {
+    // 已被新连接替换的旧 socket，忽略
+    if (this.ws && this.ws !== ws) return;
 
-        // 意外断开时尝试重连
-        if (this.reconnectAttempts < this.maxReconnectAttempts) {
-          this.reconnectAttempts++;
-          console.log(`🔄 尝试重连 (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
-          setTimeout(() => this.connect(), 2000);
-        }
-      };
-    });
+    log.info('🔌 WebSocket 已断开', event.code, event.reason);
+    const wasConnected = this.isConnected;
+    this.isConnected = false;
+    this.stopConnectTimer();
+    this.stopHeartbeat();
+    this.stopDrainCheck();
+    this.functionCallArgs.clear();
+    this.pendingToolCalls.clear();
+    this.pendingClientItems = [];
+    this.activeResponseId = null;
+    this.cancelledResponses.clear();
+
+    // 握手未完成就被关闭，结束挂起的 connect()
+    this.connectReject?.(new Error(`连接已关闭 (${event.code})`));
+    this.connectResolve = null;
+    this.connectReject = null;
+
+    // 如果是用户主动断开，不尝试重连
+    if (this.manualDisconnect) {
+      log.info('📴 用户主动断开，不进行重连');
+      this.manualDisconnect = false;
+      this.emitter.emit('disconnected');
+      return;
+    }
+
+    this.ws = null;
+
+    // 首次连接失败由 connect() 的调用方处理，不自动重连
+    if (!wasConnected && !this.isReconnecting) return;
+
+    // 意外断开时按退避策略重连
+    this.scheduleReconnect();
+  }
+
+  /**
+   * 放弃无响应的传输：不等待关闭握手（半开连接上可能永远不会完成），立即按断开处理
+   */
+  private abortTransport(ws: RealtimeTransport, code: number, reason: string): void {
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.onclose = null;
+    try {
+      ws.close(code, reason);
+    } catch {
+      // 传输可能已处于关闭状态
+    }
+    this.handleClose(ws, { code, reason });
+  }
+
+  /**
+   * 连接或握手超时后放弃该传输，connect() 以超时错误结束
+   */
+  private startConnectTimer(ws: RealtimeTransport, timeout: number, message: string): void {
+    this.stopConnectTimer();
+    this.connectTimer = setTimeout(() => {
+      this.connectTimer = null;
+      if (this.ws !== ws || this.isConnected) return;
+      log.warn(`⏱️ ${message} (${timeout}ms)`);
+      this.connectReject?.(new Error(`${message}，请检查网络或代理服务器`));
+      this.connectResolve = null;
+      this.connectReject = null;
+      this.abortTransport(ws, 4000, message);
+    }, timeout);
+  }
+
+  private stopConnectTimer(): void {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
   }
 
   disconnect(): void {
     // 标记为用户主动断开，阻止自动重连
     this.manualDisconnect = true;
+    this.cancelReconnect();
+    this.stopConnectTimer();
     // 停止心跳
     this.stopHeartbeat();
     if (this.ws) {
       this.ws.close();
       this.ws = null;
+    } else {
+      // 没有活动的 socket（如正在等待重连），不会再触发 onclose
+      this.manualDisconnect = false;
     }
     this.isConnected = false;
+    this.functionCallArgs.clear();
+    this.pendingToolCalls.clear();
+    this.pendingClientItems = [];
+    this.activeResponseId = null;
+    this.cancelledResponses.clear();
+    this.audioMsByItem.clear();
+    this.truncations.clear();
+    this.outbound.clear();
+    this.stopDrainCheck();
+  }
+
+  /**
+   * 连接就绪（直连 onopen 或收到 proxy.connected）
+   */
+  private handleConnected(): void {
+    const restored = this.isReconnecting;
+    this.isConnected = true;
+    this.isReconnecting = false;
+    this.reconnectAttempts = 0;
+    this.stopConnectTimer();
+    // 断线期间新建的对话项还在出站队列中，随队列发送，不属于上一次连接
+    const queuedIds = new Set(this.pendingClientItems.map((pending) => pending.id));
+    this.staleItemIds = new Set(this.mirror.getItems().map((item) => item.id).filter((id) => !queuedIds.has(id)));
+    this.initSession();
+    if (restored) {
+      this.restoreConversation();
+    }
+    // 发送连接建立前排队的事件
+    this.flushOutbound();
+    // 启动心跳与存活检测
+    this.startHeartbeat();
+    this.emitter.emit('connected');
+    if (restored) {
+      this.emitter.emit('reconnected');
+    }
+    this.connectResolve?.();
+    this.connectResolve = null;
+    this.connectReject = null;
+  }
+
+  // ==================== 断线重连 ====================
+
+  /**
+   * 计算第 attempt 次重连的延迟：指数退避 + 随机抖动
+   */
+  private getReconnectDelay(attempt: number): number {
+    const { baseDelay, maxDelay, jitter } = this.reconnectPolicy;
+    const exponential = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+    const spread = exponential * jitter;
+    return Math.max(0, Math.round(exponential - spread + Math.random() * spread * 2));
+  }
+
+  /**
+   * 安排下一次重连，超过最大次数后放弃并通知断开
+   */
+  private scheduleReconnect(): void {
+    const { maxAttempts } = this.reconnectPolicy;
+    if (this.reconnectAttempts >= maxAttempts) {
+      log.warn(`⚠️ 重连 ${maxAttempts} 次均失败，放弃重连`);
+      this.isReconnecting = false;
+      this.reconnectAttempts = 0;
+      this.emitter.emit('disconnected');
+      this.emitter.emit('error', {
+        type: 'reconnect_failed',
+        message: `重连 ${maxAttempts} 次均失败`,
+      });
+      return;
+    }
+
+    this.isReconnecting = true;
+    this.reconnectAttempts++;
+    const delay = this.getReconnectDelay(this.reconnectAttempts);
+    log.info(`🔄 ${delay}ms 后尝试重连 (${this.reconnectAttempts}/${maxAttempts})...`);
+    this.emitter.emit('reconnecting', this.reconnectAttempts, delay);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      // 失败时 onclose 会安排下一次重连，这里只记录原因
+      this.connect().catch((e: Error) => {
+        log.warn(`⚠️ 第 ${this.reconnectAttempts} 次重连失败:`, e.message);
+      });
+    }, delay);
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.isReconnecting = false;
+    this.reconnectAttempts = 0;
+  }
+
+  /**
+   * 重连后回放历史对话，让模型保留上下文
+   */
+  private restoreConversation(): void {
+    if (!this.reconnectPolicy.restoreConversation) return;
+
+    // 只回放上一次连接中已完成的文本/语音消息，语音以转录文本形式回放
+    const items = this.mirror
+      .getItems()
+      .filter((item) => this.staleItemIds.has(item.id))
+      .filter((item) => item.type === 'message' && item.role !== 'system' && item.text && item.status === 'completed');
+    if (items.length === 0) return;
+
+    // 新会话不认识原来的 ID，不带 ID 创建，由 conversation.item.created 按顺序映射回本地镜像（itemIdChanged）
+    log.info(`♻️ 回放 ${items.length} 条历史对话`);
+    const restored = items.map(({ id, role, text }) => {
+      const item: ConversationItem = role === 'user'
+        ? { type: 'message', role: 'user', content: [{ type: 'input_text', text }] }
+        : { type: 'message', role: 'assistant', content: [{ type: 'text', text }] };
+      this.transmit({ type: 'conversation.item.create', item });
+      return { id, key: this.getItemKey(item) };
+    });
+    // 回放先于出站队列发送，确认顺序也在队列中的对话项之前
+    this.pendingClientItems = [...restored, ...this.pendingClientItems];
   }
 
   // ==================== 心跳保活 ====================
 
   /**
-   * 启动心跳，每60秒发送一次 task_continue 事件保持连接
+   * 启动心跳与存活检测：
+   * - 客户端空闲时发送 task_continue 保活，推流或响应进行中不发送
+   * - 长时间收不到服务端消息时发送探测（session.update 会得到 session.updated 回应），仍无回应则判定为半开连接并重连
    */
   private startHeartbeat(): void {
     this.stopHeartbeat();
-    this.heartbeatInterval = setInterval(() => {
-      if (this.isConnected) {
-        console.log('💓 发送心跳...');
-        this.send({
-          event: 'task_continue',
-          text: '',
-        });
-      }
-    }, this.HEARTBEAT_INTERVAL);
+    const now = Date.now();
+    this.lastInboundAt = now;
+    this.lastOutboundAt = now;
+    this.probeSentAt = null;
+    this.livenessTimer = setInterval(() => this.checkLiveness(), this.LIVENESS_CHECK_INTERVAL);
   }
 
   /**
    * 停止心跳
    */
   private stopHeartbeat(): void {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = null;
+    if (this.livenessTimer) {
+      clearInterval(this.livenessTimer);
+      this.livenessTimer = null;
+    }
+    this.probeSentAt = null;
+  }
+
+  private checkLiveness(): void {
+    if (!this.isConnected || !this.ws) return;
+    const { heartbeatInterval, livenessWindow, probeTimeout } = this.livenessPolicy;
+    const now = Date.now();
+
+    if (this.probeSentAt !== null) {
+      if (now - this.probeSentAt >= probeTimeout) {
+        log.warn(`💔 ${Math.round((now - this.lastInboundAt) / 1000)} 秒未收到服务端消息，连接已失效，准备重连`);
+        this.abortTransport(this.ws, 4001, 'liveness timeout');
+      }
+      return;
+    }
+
+    if (now - this.lastInboundAt >= livenessWindow) {
+      log.debug('🩺 发送存活探测...');
+      this.probeSentAt = now;
+      this.transmit({ type: 'session.update', session: { modalities: this.getModalities() } });
+      return;
+    }
+
+    const isIdle = !this.activeResponseId && this.outbound.length === 0;
+    if (isIdle && now - this.lastOutboundAt >= heartbeatInterval) {
+      log.debug('💓 发送心跳...');
+      this.send({
+        event: 'task_continue',
+        text: '',
+      });
     }
   }
 
   // ==================== 会话配置 ====================
 
   private initSession(): void {
-    this.send({
+    // 握手阶段直接发送，排在出站队列之前
+    this.transmit({
       type: 'session.update',
       session: {
-        modalities: ['text', 'audio'],
-        instructions: this.config.instructions || '你是一位友善的助手。',
-        voice: this.config.voice,
-        input_audio_format: 'pcm16',
-        output_audio_format: 'pcm16',
-        temperature: 0.7,
+        ...this.sessionConfig,
+        ...this.getToolSession(),
       },
     });
   }
 
-  updateSession(session: Partial<{
-    modalities: string[];
-    instructions: string;
-    voice: string;
-    temperature: number;
-    max_response_output_tokens: number;
-  }>): void {
+  /**
+   * 当前注册的工具声明（无工具时不下发 tools 字段）
+   */
+  private getToolSession(): Partial<SessionConfig> {
+    if (this.tools.size === 0) {
+      return {};
+    }
+    return {
+      tools: this.tools.toSessionTools(),
+      tool_choice: this.toolChoice,
+    };
+  }
+
+  updateSession(session: Partial<SessionConfig>): void {
+    // 记录最新配置，重连后整体恢复
+    this.sessionConfig = { ...this.sessionConfig, ...session };
     this.send({
       type: 'session.update',
       session,
     });
   }
 
+  /**
+   * 切换回复模态（如仅文本的静音模式），同时更新会话和之后每次响应的请求
+   */
+  setModalities(modalities: Modality[]): void {
+    log.info('🔀 回复模态:', modalities.join(' + '));
+    this.updateSession({ modalities });
+  }
+
+  getModalities(): Modality[] {
+    return this.sessionConfig.modalities || ['text', 'audio'];
+  }
+
+  // ==================== 工具调用 ====================
+
+  /**
+   * 注册工具，已连接时立即同步到会话
+   * @returns 取消注册函数
+   */
+  registerTool<Args>(tool: ToolDefinition<Args>): () => void {
+    const unregister = this.tools.register(tool);
+    this.syncTools();
+    return () => {
+      unregister();
+      this.syncTools();
+    };
+  }
+
+  /**
+   * 设置工具选择策略
+   */
+  setToolChoice(toolChoice: ToolChoice): void {
+    this.toolChoice = toolChoice;
+    this.syncTools();
+  }
+
+  private syncTools(): void {
+    if (!this.isConnected) return;
+    this.updateSession({
+      tools: this.tools.toSessionTools(),
+      tool_choice: this.toolChoice,
+    });
+  }
+
+  /**
+   * 执行模型请求的工具，并回传 function_call_output
+   */
+  private runToolCall(event: ResponseFunctionCallArgumentsDoneEvent): void {
+    const streamed = this.functionCallArgs.get(event.item_id);
+    this.functionCallArgs.delete(event.item_id);
+
+    const call: ToolCall = {
+      callId: event.call_id,
+      itemId: event.item_id,
+      responseId: event.response_id,
+      name: event.name || streamed?.name || '',
+      arguments: event.arguments,
+      status: 'running',
+    };
+
+    log.info('🛠️ 调用工具:', call.name, call.arguments);
+    this.emitter.emit('toolCallStart', { ...call });
+
+    const task = this.executeTool(call)
+      .then((output) => {
+        call.status = 'completed';
+        call.output = output;
+      })
+      .catch((e) => {
+        log.error('❌ 工具执行失败:', call.name, e);
+        const message = e instanceof Error ? e.message : String(e);
+        call.status = 'failed';
+        call.error = message;
+        call.output = JSON.stringify(
+          e instanceof ToolArgumentsError ? { error: 'invalid_arguments', message, issues: e.issues } : { error: message }
+        );
+      })
+      .then(() => {
+        // 响应已被打断时不再回传结果，避免模型基于已放弃的调用继续生成
+        if (this.isCancelled(call.responseId)) {
+          log.info('🚫 响应已放弃，丢弃工具结果:', call.name);
+        } else {
+          this.createConversationItem({
+            type: 'function_call_output',
+            call_id: call.callId,
+            output: call.output!,
+          });
+        }
+        this.emitter.emit('toolCallDone', { ...call });
+      });
+
+    const pending = this.pendingToolCalls.get(call.responseId) || [];
+    pending.push(task);
+    this.pendingToolCalls.set(call.responseId, pending);
+  }
+
+  /**
+   * 执行工具，超过 toolTimeout 仍未完成时按失败处理，不阻塞后续响应
+   */
+  private executeTool(call: ToolCall): Promise<string> {
+    const timeoutMs = this.config.toolTimeout!;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`工具执行超时（${timeoutMs}ms）`)), timeoutMs);
+    });
+    return Promise.race([this.tools.execute(call.name, call.arguments), timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * 响应结束后等待其中的工具全部执行完毕，再触发后续响应
+   */
+  private continueAfterToolCalls(responseId: string): void {
+    const pending = this.pendingToolCalls.get(responseId);
+    if (!pending) return;
+    this.pendingToolCalls.delete(responseId);
+
+    Promise.all(pending).then(() => {
+      if (!this.isConnected) return;
+      log.info('🛠️ 工具结果已回传，继续生成响应');
+      this.createResponse();
+    });
+  }
+
   // ==================== 音频输入 ====================
 
   /**
@@ -239,6 +791,7 @@ export class RealtimeService {
    * 提交音频缓冲区，触发 ASR 识别
    */
   commitAudio(): void {
+    this.latency?.mark('commit');
     this.send({ type: 'input_audio_buffer.commit' });
   }
 
@@ -255,21 +808,22 @@ export class RealtimeService {
    * 发送文本消息
    * @param text 用户输入的文本
    */
-  sendText(text: string): void {
+  sendText(text: string): string {
+    const item = this.trackClientItem({
+      type: 'message',
+      role: 'user',
+      content: [{ type: 'input_text', text }],
+    });
+    this.latency?.mark('text_sent');
     // MiniMax Realtime API 需要在 response.create 中包含 input
     this.send({
       type: 'response.create',
       response: {
-        modalities: ['text', 'audio'],
-        input: [
-          {
-            type: 'message',
-            role: 'user',
-            content: [{ type: 'input_text', text }],
-          },
-        ],
+        modalities: this.getModalities(),
+        input: [item],
       },
     });
+    return item.id;
   }
 
   // ==================== 响应控制 ====================
@@ -278,14 +832,14 @@ export class RealtimeService {
    * 触发模型生成响应
    */
   createResponse(options?: {
-    modalities?: string[];
+    modalities?: SessionConfig['modalities'];
     instructions?: string;
     voice?: string;
   }): void {
     this.send({
       type: 'response.create',
       response: {
-        modalities: options?.modalities || ['text', 'audio'],
+        modalities: options?.modalities || this.getModalities(),
         ...options,
       },
     });
@@ -295,10 +849,132 @@ export class RealtimeService {
    * 打断当前响应
    * 注意：MiniMax Realtime API 不支持 response.cancel 和 input_audio_buffer.clear
    * 只能在本地停止播放，服务端会继续发送数据直到响应完成
+   * @param position 打断时助手音频实际播放到的位置，用于截断服务端历史
+   */
+  interrupt(position?: { itemId: string; playedMs: number } | null): void {
+    if (this.activeResponseId) {
+      this.cancelLocal(this.activeResponseId);
+    }
+    if (!position) return;
+
+    const item = this.mirror.get(position.itemId);
+    if (!item || item.role !== 'assistant' || this.truncations.has(item.id)) return;
+
+    const audioEndMs = Math.max(0, Math.round(position.playedMs));
+    log.info('✂️ 截断助手回复:', item.id, `${audioEndMs}ms`);
+    this.truncations.set(item.id, { audioEndMs, acked: false, finalized: false });
+
+    if (this.config.truncation === 'server') {
+      const contentIndex = item.item.type === 'message'
+        ? Math.max(0, item.item.content.findIndex((part) => part.type === 'audio'))
+        : 0;
+      this.send({
+        type: 'conversation.item.truncate',
+        item_id: item.id,
+        content_index: contentIndex,
+        audio_end_ms: audioEndMs,
+      });
+    }
+
+    // 回复已生成完毕时立即截断，否则等待 response.output_item.done
+    if (item.status !== 'in_progress') {
+      this.finalizeTruncation(item.id);
+    }
+  }
+
+  /**
+   * 在本地放弃某个响应：服务端仍会继续发送，但其后续 delta / done 回调被丢弃
+   * @param responseId 要放弃的响应 ID
    */
-  interrupt(): void {
-    // MiniMax API 不支持打断命令，只在本地处理
-    // 不发送任何命令到服务端
+  cancelLocal(responseId: string): void {
+    if (this.cancelledResponses.has(responseId)) return;
+    log.info('🚫 放弃响应:', responseId);
+    this.cancelledResponses.add(responseId);
+    if (this.activeResponseId === responseId) {
+      this.activeResponseId = null;
+    }
+  }
+
+  /**
+   * 当前正在生成的响应 ID
+   */
+  getActiveResponseId(): string | null {
+    return this.activeResponseId;
+  }
+
+  private isCancelled(responseId: string): boolean {
+    return this.cancelledResponses.has(responseId);
+  }
+
+  /**
+   * 按实际播放比例截取回复文本，并同步本地镜像
+   */
+  private finalizeTruncation(itemId: string): void {
+    const truncation = this.truncations.get(itemId);
+    const item = this.mirror.get(itemId);
+    if (!truncation || truncation.finalized || !item) return;
+    truncation.finalized = true;
+
+    const totalMs = this.audioMsByItem.get(itemId) || 0;
+    this.audioMsByItem.delete(itemId);
+    const ratio = totalMs > 0 ? truncation.audioEndMs / totalMs : 1;
+    const fullText = item.text;
+    const text = this.getHeardText(fullText, ratio);
+
+    this.mirror.setText(itemId, text);
+    this.mirror.setStatus(itemId, 'incomplete');
+    this.emitter.emit('itemTruncated', { itemId, audioEndMs: truncation.audioEndMs, text, fullText });
+    this.emitConversationChange();
+
+    // 没有文本可供重建（如纯语音回复无转录）时只依赖服务端截断
+    if (!fullText || truncation.acked) {
+      this.truncations.delete(itemId);
+      return;
+    }
+
+    if (this.config.truncation === 'local') {
+      this.truncations.delete(itemId);
+      this.replaceWithHeardText(itemId, text);
+      return;
+    }
+
+    setTimeout(() => {
+      if (this.truncations.get(itemId) !== truncation) return;
+      this.truncations.delete(itemId);
+      if (!truncation.acked && this.mirror.get(itemId)) {
+        log.warn('⚠️ 服务端未确认截断，使用本地回退:', itemId);
+        this.replaceWithHeardText(itemId, text);
+      }
+    }, this.TRUNCATE_ACK_TIMEOUT);
+  }
+
+  /**
+   * 本地回退：以实际听到的文本替换原对话项
+   */
+  private replaceWithHeardText(itemId: string, text: string): void {
+    if (text) {
+      // 先在原位置之后插入替换项并通知 ID 变更，再删除原项，保证界面消息不丢失
+      const newId = this.createConversationItem(
+        { type: 'message', role: 'assistant', content: [{ type: 'text', text }] },
+        itemId
+      );
+      this.mirror.setStatus(newId, 'incomplete');
+      this.emitter.emit('itemIdChanged', itemId, newId);
+    }
+    this.removeItems([itemId]);
+  }
+
+  /**
+   * 按比例截取文本，避免把英文单词截断在中间
+   */
+  private getHeardText(text: string, ratio: number): string {
+    if (ratio >= 1) return text;
+    let end = Math.round(text.length * Math.max(0, ratio));
+    if (/\w/.test(text[end] || '') && /\w/.test(text[end - 1] || '')) {
+      const lastSpace = text.lastIndexOf(' ', end);
+      end = lastSpace === -1 ? end : lastSpace;
+    }
+    return text.slice(0, end).trimEnd();
   }
 
   // ==================== 对话管理 ====================
@@ -308,145 +984,423 @@ export class RealtimeService {
    * @param itemId 要删除的项目 ID
    */
   deleteConversationItem(itemId: string): void {
+    this.removeItems([itemId]);
+  }
+
+  /**
+   * 获取本地镜像的对话项（按服务端顺序）
+   */
+  getConversationItems(): MirrorItem[] {
+    return this.mirror.getItems();
+  }
+
+  /**
+   * 删除某一项所在的整轮对话（用户消息及其后的回复）
+   * @returns 被删除的对话项 ID
+   */
+  deleteTurn(itemId: string): string[] {
+    const ids = this.mirror.getTurn(itemId).map((item) => item.id);
+    this.removeItems(ids);
+    return ids;
+  }
+
+  /**
+   * 编辑之前的用户消息：删除该消息及之后的所有对话项，以新文本重新提问
+   * @returns 新用户消息的对话项 ID，原消息不存在时返回 null
+   */
+  editUserMessage(itemId: string, text: string): string | null {
+    const target = this.mirror.get(itemId);
+    if (!target || target.role !== 'user') return null;
+
+    this.removeItems(this.mirror.getFrom(itemId).map((item) => item.id));
+    return this.sendText(text);
+  }
+
+  /**
+   * 从某一项重新生成回复
+   * 用户消息：保留该消息，删除之后的回复；助手消息：删除该回复及之后的对话项
+   */
+  regenerateFrom(itemId: string): void {
+    const target = this.mirror.get(itemId);
+    if (!target) return;
+
+    const items = this.mirror.getFrom(itemId);
+    this.removeItems((target.role === 'user' ? items.slice(1) : items).map((item) => item.id));
+    this.createResponse();
+  }
+
+  /**
+   * 创建客户端对话项（如工具输出），同步写入本地镜像
+   */
+  private createConversationItem(item: ConversationItem, previousItemId?: string): string {
+    const tracked = this.trackClientItem(item, previousItemId);
     this.send({
-      type: 'conversation.item.delete',
-      item_id: itemId,
+      type: 'conversation.item.create',
+      ...(previousItemId ? { previous_item_id: previousItemId } : {}),
+      item: tracked,
     });
+    return tracked.id;
+  }
+
+  /**
+   * 为客户端对话项分配 ID，写入镜像并等待服务端确认
+   */
+  private trackClientItem<T extends ConversationItem>(item: T, previousItemId?: string): T & { id: string } {
+    const tracked = { ...item, id: item.id || this.generateItemId() };
+    this.mirror.upsert(tracked, previousItemId);
+    this.pendingClientItems.push({ id: tracked.id, key: this.getItemKey(tracked) });
+    this.emitConversationChange();
+    return tracked;
+  }
+
+  private removeItems(itemIds: string[]): void {
+    if (itemIds.length === 0) return;
+    for (const id of itemIds) {
+      this.mirror.remove(id);
+      this.forgetItemAudio(id);
+      this.send({ type: 'conversation.item.delete', item_id: id });
+    }
+    this.emitConversationChange();
+  }
+
+  /**
+   * 清除对话项的音频时长和截断记录
+   */
+  private forgetItemAudio(itemId: string): void {
+    this.audioMsByItem.delete(itemId);
+    this.truncations.delete(itemId);
+  }
+
+  /**
+   * 匹配服务端创建的对话项与等待确认的客户端对话项
+   * 服务端使用了不同的 ID 时重命名本地镜像并通知调用方
+   */
+  private resolveItemId(item: ConversationItem): string | undefined {
+    const pending = this.pendingClientItems[0];
+    if (!item.id) return item.id;
+
+    // 新会话分配的 ID 与上一次连接遗留的对话项重复时，先把旧项改为本地 ID，避免覆盖
+    if (this.staleItemIds.has(item.id) && pending?.id !== item.id) {
+      this.renameItem(item.id, this.generateItemId());
+    }
+    if (!pending) return item.id;
+
+    if (item.id === pending.id) {
+      this.pendingClientItems.shift();
+      this.staleItemIds.delete(item.id);
+    } else if (pending.key === this.getItemKey(item) && !this.mirror.get(item.id)) {
+      this.pendingClientItems.shift();
+      this.renameItem(pending.id, item.id);
+    }
+    return item.id;
+  }
+
+  private renameItem(oldId: string, newId: string): void {
+    log.debug('🔁 对话项 ID 变更:', oldId, '→', newId);
+    this.mirror.rename(oldId, newId);
+    this.staleItemIds.delete(oldId);
+    this.pendingClientItems.forEach((pending) => {
+      if (pending.id === oldId) pending.id = newId;
+    });
+    this.emitter.emit('itemIdChanged', oldId, newId);
+  }
+
+  /**
+   * 对话项的结构特征（类型 + 角色 + 首个内容类型），用于匹配客户端对话项
+   */
+  private getItemKey(item: ConversationItem): string {
+    return item.type === 'message'
+      ? `${item.type}:${item.role}:${item.content[0]?.type || ''}`
+      : item.type;
+  }
+
+  private generateItemId(): string {
+    return `item_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  private emitConversationChange(): void {
+    this.emitter.emit('conversationChange', this.mirror.getItems());
   }
 
   // ==================== 事件处理 ====================
 
-  private handleServerEvent(event: any): void {
+  /**
+   * 解析并校验入站帧，格式错误的事件通过 onError 上报
+   */
+  private handleMessage(data: unknown): void {
+    // 任意服务端消息都说明连接仍然存活
+    this.lastInboundAt = Date.now();
+    this.probeSentAt = null;
+    if (typeof data !== 'string') {
+      this.reportInvalidEvent('收到非文本帧', data);
+      return;
+    }
+
+    const parsed = parseServerEvent(data);
+    this.recorder?.record('in', parsed.kind === 'event' ? parsed.event : parsed.raw);
+    switch (parsed.kind) {
+      case 'event':
+        // 校验未覆盖的异常结构不应中断 socket 回调
+        try {
+          this.emitter.emit('serverEvent', parsed.event);
+          this.handleServerEvent(parsed.event);
+        } catch (e) {
+          const message = e instanceof Error ? e.message : String(e);
+          this.reportInvalidEvent(`处理 ${parsed.event.type} 事件失败: ${message}`, parsed.event);
+        }
+        break;
+      case 'unknown':
+        log.debug('📌 未处理事件:', parsed.type);
+        break;
+      case 'invalid':
+        this.reportInvalidEvent(parsed.message, parsed.raw);
+        break;
+    }
+  }
+
+  private reportInvalidEvent(message: string, raw: unknown): void {
+    log.error('❌ 无效的服务端事件:', message, raw);
+    this.emitter.emit('error', {
+      type: 'invalid_event',
+      message,
+    });
+  }
+
+  private handleServerEvent(event: ServerEvent): void {
     const eventType = event.type;
 
-    // 调试日志（可以根据需要关闭）
+    // 完整事件只在 debug 级别输出（已脱敏）
     if (!eventType.includes('delta')) {
-      console.log('📨 收到事件:', eventType, event);
+      log.debug(`📨 收到事件: ${eventType}`, event);
     }
 
     switch (eventType) {
       // ============ 代理事件 ============
       case 'proxy.connected':
-        console.log('✅ 代理已连接到 MiniMax Realtime API');
-        this.isConnected = true;
-        this.reconnectAttempts = 0;
-        this.initSession();
-        // 启动心跳保持连接
-        this.startHeartbeat();
-        this.callbacks.onConnected?.();
-        this.connectResolve?.();
-        this.connectResolve = null;
-        this.connectReject = null;
+        proxyLog.info('✅ 代理已连接到 MiniMax Realtime API');
+        this.handleConnected();
         break;
 
       // ============ 会话事件 ============
       case 'session.created':
-        console.log('📋 会话已创建:', event.session?.id);
+        log.info('📋 会话已创建:', event.session.id);
         break;
 
       case 'session.updated':
-        console.log('📋 会话已更新:', event.session);
+        log.debug('📋 会话已更新:', event.session);
         break;
 
       // ============ 对话事件 ============
       case 'conversation.created':
-        console.log('💬 对话已创建:', event.conversation?.id);
+        log.info('💬 对话已创建:', event.conversation.id);
         break;
 
       case 'conversation.item.created':
         this.handleItemCreated(event);
         break;
 
+      case 'conversation.item.truncated': {
+        log.info('✂️ 对话项已截断:', event.item_id, event.audio_end_ms);
+        const truncation = this.truncations.get(event.item_id);
+        if (truncation) {
+          truncation.acked = true;
+          // 已按播放进度截取文本时不再需要等待确认
+          if (truncation.finalized) {
+            this.truncations.delete(event.item_id);
+          }
+        }
+        break;
+      }
+
       case 'conversation.item.deleted':
-        console.log('🗑️ 对话项已删除:', event.item_id);
+        log.info('🗑️ 对话项已删除:', event.item_id);
+        this.forgetItemAudio(event.item_id);
+        if (this.mirror.remove(event.item_id)) {
+          this.emitConversationChange();
+        }
         break;
 
+      case 'conversation.item.input_audio_transcription.completed': {
+        const item = this.mirror.get(event.item_id);
+        // conversation.item.created 中未携带转录时，以此事件为准
+        if (item && !item.text && event.transcript) {
+          log.info('🎤 用户语音识别:', event.transcript);
+          this.mirror.setText(event.item_id, event.transcript);
+          this.emitConversationChange();
+          this.emitter.emit('userTranscript', event.transcript, event.item_id);
+        }
+        break;
+      }
+
       // ============ 音频缓冲区事件 ============
       case 'input_audio_buffer.committed':
-        console.log('✅ 音频已提交, item_id:', event.item_id);
+        log.info('✅ 音频已提交, item_id:', event.item_id);
+        this.latency?.mark('committed');
         break;
 
       case 'input_audio_buffer.cleared':
-        console.log('🗑️ 音频缓冲区已清空');
+        log.info('🗑️ 音频缓冲区已清空');
+        break;
+
+      case 'input_audio_buffer.speech_started':
+        vadLog.info('🗣️ 服务端检测到说话开始:', event.audio_start_ms);
+        this.emitter.emit('speechStarted', event);
+        break;
+
+      case 'input_audio_buffer.speech_stopped':
+        vadLog.info('🤫 服务端检测到说话结束:', event.audio_end_ms);
+        if (this.config.turnDetection === 'server') {
+          this.latency?.mark('speech_end');
+        }
+        this.emitter.emit('speechStopped', event);
         break;
 
       // ============ 响应事件 ============
       case 'response.created':
-        console.log('🤖 响应开始:', event.response?.id);
-        this.callbacks.onResponseStart?.();
+        log.info('🤖 响应开始:', event.response.id);
+        this.activeResponseId = event.response.id;
+        this.latency?.mark('response_created');
+        this.emitter.emit('responseStart', event.response.id);
         break;
 
       case 'response.output_item.added':
-        console.log('📝 输出项添加:', event.item?.id);
+        log.debug('📝 输出项添加:', event.item.id);
+        if (event.item.id) {
+          this.mirror.upsert({ ...event.item, id: event.item.id, status: event.item.status || 'in_progress' });
+        }
+        if (event.item.type === 'function_call' && event.item.id) {
+          this.functionCallArgs.set(event.item.id, { name: event.item.name, arguments: '' });
+        }
         break;
 
       case 'response.output_item.done':
-        console.log('✅ 输出项完成:', event.item?.id);
+        log.debug('✅ 输出项完成:', event.item.id);
+        if (event.item.id) {
+          this.mirror.upsert({ ...event.item, id: event.item.id, status: event.item.status || 'completed' });
+          this.emitConversationChange();
+          this.finalizeTruncation(event.item.id);
+        }
         break;
 
       // ============ 文本流式输出 ============
       case 'response.text.delta':
-        this.callbacks.onTextDelta?.(event.delta);
+        if (this.isCancelled(event.response_id)) break;
+        this.latency?.mark('first_text_delta');
+        this.emitter.emit('textDelta', event.delta, this.getResponseRef(event));
         break;
 
       case 'response.text.done':
-        this.callbacks.onTextDone?.(event.text);
+        this.mirror.setText(event.item_id, event.text);
+        if (this.isCancelled(event.response_id)) break;
+        this.emitter.emit('textDone', event.text, this.getResponseRef(event));
         break;
 
       // ============ 音频流式输出 ============
       case 'response.audio.delta':
-        this.callbacks.onAudioDelta?.(event.delta);
+        this.audioMsByItem.set(
+          event.item_id,
+          (this.audioMsByItem.get(event.item_id) || 0) + getPcm16DurationMs(event.delta)
+        );
+        if (this.isCancelled(event.response_id)) break;
+        this.latency?.mark('first_audio_delta');
+        this.emitter.emit('audioDelta', event.delta, this.getResponseRef(event));
         break;
 
       case 'response.audio.done':
-        this.callbacks.onAudioDone?.();
+        if (this.isCancelled(event.response_id)) break;
+        this.emitter.emit('audioDone', this.getResponseRef(event));
         break;
 
       // ============ AI 语音转录 ============
       case 'response.audio_transcript.delta':
-        this.callbacks.onAudioTranscriptDelta?.(event.delta);
+        if (this.isCancelled(event.response_id)) break;
+        this.emitter.emit('audioTranscriptDelta', event.delta, this.getResponseRef(event));
         break;
 
       case 'response.audio_transcript.done':
-        this.callbacks.onAudioTranscriptDone?.(event.transcript);
+        if (!this.mirror.get(event.item_id)?.text) {
+          this.mirror.setText(event.item_id, event.transcript);
+        }
+        if (this.isCancelled(event.response_id)) break;
+        this.emitter.emit('audioTranscriptDone', event.transcript, this.getResponseRef(event));
+        break;
+
+      // ============ 工具调用参数 ============
+      case 'response.function_call_arguments.delta': {
+        const streamed = this.functionCallArgs.get(event.item_id);
+        if (streamed) {
+          streamed.arguments += event.delta;
+        } else {
+          this.functionCallArgs.set(event.item_id, { name: '', arguments: event.delta });
+        }
+        break;
+      }
+
+      case 'response.function_call_arguments.done':
+        this.runToolCall(event);
         break;
 
       // ============ 响应完成 ============
       case 'response.done':
-        console.log('✅ 响应完成:', event.response?.status);
-        this.callbacks.onResponseDone?.(event.response?.usage || null);
+        log.info('✅ 响应完成:', event.response.status);
+        if (this.activeResponseId === event.response.id) {
+          this.activeResponseId = null;
+        }
+        // 用量照常上报；被放弃的响应不再自动继续工具调用
+        this.emitter.emit('responseDone', event.response.usage || null, event.response.id);
+        if (this.isCancelled(event.response.id)) {
+          // 等仍在执行的工具结束（并丢弃其结果）后再移除放弃标记
+          const responseId = event.response.id;
+          const abandoned = this.pendingToolCalls.get(responseId) || [];
+          this.pendingToolCalls.delete(responseId);
+          Promise.all(abandoned).then(() => this.cancelledResponses.delete(responseId));
+        } else {
+          this.continueAfterToolCalls(event.response.id);
+        }
         break;
 
       // ============ 错误事件 ============
       case 'error':
-        console.error('❌ API 错误:', event.error);
-        this.callbacks.onError?.({
-          type: event.error?.type || 'unknown',
-          message: event.error?.message || '未知错误',
-          code: event.error?.code,
+        log.error('❌ API 错误:', event.error);
+        this.emitter.emit('error', {
+          type: event.error.type || 'unknown',
+          message: event.error.message || '未知错误',
+          code: event.error.code,
         });
         break;
 
       default:
-        // 未处理的事件类型
+        // 已知但暂未处理的事件类型
         if (!eventType.includes('delta')) {
-          console.log('📌 未处理事件:', eventType);
+          log.debug('📌 未处理事件:', eventType);
         }
     }
   }
 
+  private getResponseRef(event: { response_id: string; item_id: string }): ResponseRef {
+    return { responseId: event.response_id, itemId: event.item_id };
+  }
+
   /**
    * 处理对话项创建事件
    */
-  private handleItemCreated(event: any): void {
+  private handleItemCreated(event: ConversationItemCreatedEvent): void {
     const item = event.item;
+    const itemId = this.resolveItemId(item);
+    if (!itemId) return;
+
+    const previousId = event.previous_item_id && this.mirror.get(event.previous_item_id)
+      ? event.previous_item_id
+      : undefined;
+    this.mirror.upsert({ ...item, id: itemId }, previousId);
+    this.emitConversationChange();
 
-    if (item?.role === 'user' && item?.content) {
+    if (item.type === 'message' && item.role === 'user') {
       // 检查是否有 ASR 转录结果
       for (const content of item.content) {
         if (content.type === 'input_audio' && content.transcript) {
-          console.log('🎤 用户语音识别:', content.transcript);
-          this.callbacks.onUserTranscript?.(content.transcript);
+          log.info('🎤 用户语音识别:', content.transcript);
+          this.emitter.emit('userTranscript', content.transcript, itemId);
         }
       }
     }
@@ -454,23 +1408,188 @@ export class RealtimeService {
 
   // ==================== 工具方法 ====================
 
-  private send(event: object): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      console.warn('⚠️ WebSocket 未连接，无法发送:', event);
+  /**
+   * 发送事件：连接未就绪、拥塞或队列非空时进入出站队列，保证顺序
+   */
+  private send(event: ClientEvent): void {
+    if (!this.canTransmit() || this.outbound.length > 0) {
+      const wasOverflowing = this.outbound.isOverflowing();
+      if (!this.outbound.enqueue(event)) {
+        log.warn('⚠️ WebSocket 未就绪，丢弃事件:', getClientEventType(event));
+      } else if (!wasOverflowing && this.outbound.isOverflowing()) {
+        log.warn('⚠️ 出站队列已满且无可丢弃的音频:', this.outbound.length);
+      }
+      this.reportBackpressure();
       return;
     }
-    const message = JSON.stringify(event);
-    this.ws.send(message);
+    this.transmit(event);
+  }
+
+  private canTransmit(): boolean {
+    return this.isConnected && !this.isBackpressured && this.ws?.readyState === 'open';
+  }
+
+  private transmit(event: ClientEvent): void {
+    if (!this.ws || this.ws.readyState !== 'open') {
+      log.warn('⚠️ WebSocket 未连接，无法发送:', getClientEventType(event));
+      return;
+    }
+    this.ws.send(JSON.stringify(event));
+    this.lastOutboundAt = Date.now();
+    this.recorder?.record('out', event);
+    this.emitter.emit('clientEvent', event);
+    this.checkBackpressure();
+  }
+
+  /**
+   * 按顺序发送排队的事件，遇到拥塞时暂停
+   */
+  private flushOutbound(): void {
+    while (this.outbound.length > 0 && this.canTransmit()) {
+      this.transmit(this.outbound.shift()!);
+    }
+    this.reportBackpressure();
+  }
+
+  // ==================== 背压 ====================
+
+  /**
+   * 发送后检查 bufferedAmount，超过高水位进入拥塞状态
+   */
+  private checkBackpressure(): void {
+    if (this.isBackpressured || !this.ws) return;
+    if (this.ws.bufferedAmount > this.BACKPRESSURE_HIGH_WATER) {
+      log.warn('🐢 出站缓冲拥塞:', this.ws.bufferedAmount);
+      this.isBackpressured = true;
+      this.reportBackpressure();
+      this.startDrainCheck();
+    }
+  }
+
+  /**
+   * 拥塞期间轮询缓冲区，回落到低水位后继续发送队列
+   */
+  private startDrainCheck(): void {
+    this.stopDrainCheck();
+    this.drainTimer = setInterval(() => {
+      if (!this.ws || this.ws.bufferedAmount <= this.BACKPRESSURE_LOW_WATER) {
+        log.info('🚀 出站缓冲已恢复');
+        this.stopDrainCheck();
+        this.isBackpressured = false;
+        this.flushOutbound();
+      }
+    }, this.DRAIN_CHECK_INTERVAL);
+  }
+
+  private stopDrainCheck(): void {
+    if (this.drainTimer) {
+      clearInterval(this.drainTimer);
+      this.drainTimer = null;
+    }
+    this.isBackpressured = false;
+  }
+
+  private reportBackpressure(): void {
+    this.emitter.emit('backpressure', this.getBackpressureState());
+  }
+
+  getBackpressureState(): BackpressureState {
+    return {
+      active: this.isBackpressured,
+      bufferedAmount: this.ws?.bufferedAmount || 0,
+      queuedEvents: this.outbound.length,
+      queuedAudioMs: Math.round(this.outbound.getAudioMs()),
+      overflow: this.outbound.isOverflowing(),
+    };
+  }
+
+  // ==================== 事件订阅 ====================
+
+  /**
+   * 订阅事件，返回取消订阅函数；同一事件可有多个订阅者
+   */
+  on<K extends RealtimeEventName>(event: K, handler: EventHandler<RealtimeEventMap[K]>): Unsubscribe {
+    return this.emitter.on(event, handler);
+  }
+
+  /**
+   * 订阅一次，触发后自动取消；提前取消请使用返回的函数
+   */
+  once<K extends RealtimeEventName>(event: K, handler: EventHandler<RealtimeEventMap[K]>): Unsubscribe {
+    return this.emitter.once(event, handler);
   }
 
+  off<K extends RealtimeEventName>(event: K, handler: EventHandler<RealtimeEventMap[K]>): void {
+    this.emitter.off(event, handler);
+  }
+
+  /**
+   * 兼容旧接口：以回调对象整体替换上一次 setCallbacks 注册的订阅，不影响 on() 的订阅者
+   */
   setCallbacks(callbacks: RealtimeCallbacks): void {
-    this.callbacks = callbacks;
+    this.callbackSubscriptions.forEach((unsubscribe) => unsubscribe());
+    // 逐个列出事件，新增事件未在此对应时编译报错
+    const handlers: { [K in RealtimeEventName]: EventHandler<RealtimeEventMap[K]> | undefined } = {
+      connected: callbacks.onConnected,
+      disconnected: callbacks.onDisconnected,
+      reconnecting: callbacks.onReconnecting,
+      reconnected: callbacks.onReconnected,
+      serverEvent: callbacks.onServerEvent,
+      clientEvent: callbacks.onClientEvent,
+      userTranscript: callbacks.onUserTranscript,
+      speechStarted: callbacks.onSpeechStarted,
+      speechStopped: callbacks.onSpeechStopped,
+      responseStart: callbacks.onResponseStart,
+      textDelta: callbacks.onTextDelta,
+      textDone: callbacks.onTextDone,
+      audioDelta: callbacks.onAudioDelta,
+      audioDone: callbacks.onAudioDone,
+      audioTranscriptDelta: callbacks.onAudioTranscriptDelta,
+      audioTranscriptDone: callbacks.onAudioTranscriptDone,
+      responseDone: callbacks.onResponseDone,
+      conversationChange: callbacks.onConversationChange,
+      itemIdChanged: callbacks.onItemIdChanged,
+      itemTruncated: callbacks.onItemTruncated,
+      toolCallStart: callbacks.onToolCallStart,
+      toolCallDone: callbacks.onToolCallDone,
+      backpressure: callbacks.onBackpressure,
+      error: callbacks.onError,
+    };
+    const subscribe = <K extends RealtimeEventName>(event: K): Unsubscribe | null => {
+      const handler = handlers[event];
+      return handler ? this.emitter.on(event, handler) : null;
+    };
+    this.callbackSubscriptions = (Object.keys(handlers) as RealtimeEventName[])
+      .map(subscribe)
+      .filter((unsubscribe): unsubscribe is Unsubscribe => unsubscribe !== null);
+  }
+
+  /**
+   * 设置延迟统计，在收发关键事件时打点
+   */
+  setLatencyTracker(tracker: LatencyTracker | null): void {
+    this.latency = tracker;
+  }
+
+  /**
+   * 设置事件录制器，记录收发的每个事件
+   */
+  setEventRecorder(recorder: EventRecorder | null): void {
+    this.recorder = recorder;
   }
 
   isConnectedState(): boolean {
     return this.isConnected;
   }
 
+  getTurnDetection(): TurnDetectionMode {
+    return this.config.turnDetection || 'client';
+  }
+
+  isReconnectingState(): boolean {
+    return this.isReconnecting;
+  }
+
   getConfig(): RealtimeConfig {
     return { ...this.config };
   }
@@ -0,0 +1,124 @@
+/**
+ * 回放传输
+ * 按录制时的时间间隔（可加速）重新投递服务端事件，驱动 RealtimeService 回调和音频播放以复现问题
+ * 客户端发出的事件会被忽略
+ */
+
+import { OMITTED_AUDIO_FIELD, Recording, RecordingEntry } from './eventRecorder';
+import { PCM16_SAMPLE_RATE } from './realtimeEvents';
+import type { RealtimeTransport, TransportCloseEvent, TransportFactory, TransportReadyState } from './transport';
+import { createLogger } from './logger';
+
+const log = createLogger('realtime');
+
+export interface ReplayOptions {
+  speed: number;  // 回放倍速
+  onProgress?: (played: number, total: number) => void;
+  onComplete?: () => void;
+}
+
+/**
+ * 生成指定时长的 PCM16 静音（Base64），用于回放不含音频的录制
+ */
+function createSilence(durationMs: number): string {
+  const bytes = Math.round((durationMs / 1000) * PCM16_SAMPLE_RATE) * 2;
+  return btoa('\0'.repeat(bytes));
+}
+
+/**
+ * 还原被省略的音频，保持原有时长
+ */
+function restoreAudio(event: unknown): unknown {
+  if (typeof event !== 'object' || event === null) return event;
+
+  const record = event as Record<string, unknown>;
+  const durationMs = record[OMITTED_AUDIO_FIELD];
+  if (record.type !== 'response.audio.delta' || typeof durationMs !== 'number') return event;
+
+  const { [OMITTED_AUDIO_FIELD]: omitted, ...rest } = record;
+  return { ...rest, delta: createSilence(durationMs) };
+}
+
+export class ReplayTransport implements RealtimeTransport {
+  readyState: TransportReadyState = 'connecting';
+  readonly bufferedAmount = 0;
+
+  onopen: (() => void) | null = null;
+  onmessage: ((data: unknown) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: ((event: TransportCloseEvent) => void) | null = null;
+
+  private entries: RecordingEntry[];
+  private options: ReplayOptions;
+  private index = 0;
+  private startTime = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(recording: Recording, options: ReplayOptions) {
+    this.options = { ...options, speed: options.speed > 0 ? options.speed : 1 };
+    this.entries = recording.entries.filter((entry) => entry.dir === 'in');
+
+    // 录制开始于连接之后时，补一个握手事件
+    const first = this.entries[0]?.event as { type?: string } | undefined;
+    if (first?.type !== 'proxy.connected') {
+      this.entries.unshift({
+        t: this.entries[0]?.t || 0,
+        dir: 'in',
+        event: { type: 'proxy.connected', message: 'Replay' },
+      });
+    }
+
+    setTimeout(() => {
+      if (this.readyState !== 'connecting') return;
+      log.info(`⏯️ 开始回放 ${this.entries.length} 个事件 (${this.options.speed}x)`);
+      this.readyState = 'open';
+      this.onopen?.();
+      this.startTime = performance.now();
+      this.scheduleNext();
+    }, 0);
+  }
+
+  send(): void {
+    // 回放时不需要发送客户端事件
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === 'closing' || this.readyState === 'closed') return;
+    this.readyState = 'closing';
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    setTimeout(() => {
+      this.readyState = 'closed';
+      this.onclose?.({ code, reason });
+    }, 0);
+  }
+
+  /**
+   * 按录制时间投递下一个事件
+   */
+  private scheduleNext(): void {
+    if (this.readyState !== 'open') return;
+    if (this.index >= this.entries.length) {
+      log.info('⏯️ 回放完成');
+      this.options.onComplete?.();
+      return;
+    }
+
+    const entry = this.entries[this.index];
+    const offset = (entry.t - this.entries[0].t) / this.options.speed;
+    const delay = Math.max(0, this.startTime + offset - performance.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.index++;
+      this.onmessage?.(JSON.stringify(restoreAudio(entry.event)));
+      this.options.onProgress?.(this.index, this.entries.length);
+      this.scheduleNext();
+    }, delay);
+  }
+}
+
+export function createReplayTransport(recording: Recording, options: ReplayOptions): TransportFactory {
+  return () => new ReplayTransport(recording, options);
+}
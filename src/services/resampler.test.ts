@@ -0,0 +1,76 @@
+import { createResampler, flushResampler, resample, resampleAll } from './resampler';
+
+function sine(frequency: number, sampleRate: number, length: number, amplitude = 0.5): Float32Array {
+  return Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+// 去掉两端卷积核的过渡部分后计算 RMS
+function steadyRms(samples: Float32Array, margin = 200): number {
+  const middle = samples.subarray(margin, samples.length - margin);
+  let sum = 0;
+  for (let i = 0; i < middle.length; i++) sum += middle[i] * middle[i];
+  return Math.sqrt(sum / middle.length);
+}
+
+describe('resampler', () => {
+  it('通带内的正弦增益接近 1（降采样与升采样）', () => {
+    const amplitude = 0.5;
+    const expected = amplitude / Math.SQRT2;
+
+    const down = resampleAll(sine(1000, 48000, 48000, amplitude), 48000, 24000);
+    expect(down.length).toBe(24000);
+    expect(steadyRms(down) / expected).toBeCloseTo(1, 2);
+
+    const up = resampleAll(sine(1000, 24000, 24000, amplitude), 24000, 44100);
+    expect(up.length).toBe(44100);
+    expect(steadyRms(up) / expected).toBeCloseTo(1, 2);
+  });
+
+  it('高于目标奈奎斯特频率的成分被抑制（混叠低于 -40dB）', () => {
+    const input = sine(15000, 48000, 48000);
+    const output = resampleAll(input, 48000, 24000);
+    expect(steadyRms(output) / steadyRms(input)).toBeLessThan(0.01);
+  });
+
+  it('分帧流式处理与整段处理结果一致', () => {
+    const input = Float32Array.from(
+      { length: 44100 },
+      (_, i) => 0.4 * Math.sin(i * 0.031) + 0.2 * Math.sin(i * 0.47 + 1)
+    );
+    const whole = resampleAll(input, 44100, 24000);
+
+    // 不规则的帧长，覆盖帧边界落在卷积核不同相位的情况
+    const frameSizes = [128, 441, 37, 1024, 1, 300];
+    let state = createResampler(44100, 24000);
+    const chunks: Float32Array[] = [];
+    for (let offset = 0, i = 0; offset < input.length; i++) {
+      const size = frameSizes[i % frameSizes.length];
+      const result = resample(state, input.subarray(offset, offset + size));
+      chunks.push(result.output);
+      state = result.state;
+      offset += size;
+    }
+    chunks.push(flushResampler(state).output);
+
+    const streamed = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    chunks.reduce((offset, chunk) => {
+      streamed.set(chunk, offset);
+      return offset + chunk.length;
+    }, 0);
+
+    expect(streamed.length).toBe(whole.length);
+    let maxError = 0;
+    for (let i = 0; i < whole.length; i++) {
+      maxError = Math.max(maxError, Math.abs(streamed[i] - whole[i]));
+    }
+    expect(maxError).toBeLessThan(1e-6);
+  });
+
+  it('不修改传入的状态', () => {
+    const state = createResampler(48000, 24000);
+    const history = state.history.slice();
+    resample(state, sine(440, 48000, 512));
+    expect(state.history).toEqual(history);
+    expect(state.position).toBe(Math.ceil(state.kernel.halfWidth));
+  });
+});
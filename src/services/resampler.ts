@@ -0,0 +1,216 @@
+/**
+ * 带限重采样（加窗 sinc）
+ * 流式处理：状态保存前一帧末尾的样本和小数相位，跨帧连续、无接缝
+ * 所有函数都是纯函数，返回新的状态而不修改传入的状态
+ */
+
+export interface ResamplerOptions {
+  zeroCrossings: number;  // 卷积核单侧的过零点数，越大过渡带越窄、计算量越大
+  rolloff: number;        // 截止频率相对目标奈奎斯特频率的比例（0-1），留出过渡带抑制混叠
+  phases: number;         // 卷积核查找表每个输入样本间隔的分辨率
+}
+
+export const DEFAULT_RESAMPLER_OPTIONS: ResamplerOptions = {
+  zeroCrossings: 16,
+  rolloff: 0.9,
+  phases: 256,
+};
+
+// 卷积核：以输入样本为单位，对称，只保存 t >= 0 的一半
+export interface ResamplerKernel {
+  table: Float32Array;  // table[k] = h(k / phases)，末尾多一个 0 便于插值
+  phases: number;
+  halfWidth: number;    // 卷积核单侧宽度（输入样本数）
+}
+
+export interface ResamplerState {
+  inputRate: number;
+  outputRate: number;
+  step: number;             // 每个输出样本前进的输入样本数
+  kernel: ResamplerKernel;
+  history: Float32Array;    // 上一帧保留的输入样本
+  position: number;         // 下一个输出样本在 history 起点坐标系中的位置
+}
+
+export interface ResampleResult {
+  output: Float32Array;
+  state: ResamplerState;
+}
+
+// 位置比较的容差（输入样本）
+const POSITION_EPSILON = 1e-6;
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+// Blackman 窗，x ∈ [-1, 1]
+function blackman(x: number): number {
+  const t = (x + 1) / 2;
+  return 0.42 - 0.5 * Math.cos(2 * Math.PI * t) + 0.08 * Math.cos(4 * Math.PI * t);
+}
+
+/**
+ * 生成低通卷积核查找表
+ * 降采样时截止频率随比例降低，升采样时取输入奈奎斯特频率
+ */
+export function createKernel(
+  inputRate: number,
+  outputRate: number,
+  options: Partial<ResamplerOptions> = {}
+): ResamplerKernel {
+  const { zeroCrossings, rolloff, phases } = { ...DEFAULT_RESAMPLER_OPTIONS, ...options };
+  const cutoff = Math.min(1, outputRate / inputRate) * rolloff;  // 相对输入奈奎斯特频率
+  const halfWidth = zeroCrossings / cutoff;
+  const size = Math.ceil(halfWidth * phases);
+  const table = new Float32Array(size + 2);
+  for (let k = 0; k <= size; k++) {
+    const t = k / phases;
+    table[k] = t < halfWidth ? cutoff * sinc(cutoff * t) * blackman(t / halfWidth) : 0;
+  }
+  return { table, phases, halfWidth };
+}
+
+/**
+ * 卷积核在 t（输入样本为单位）处的值，查找表之间线性插值
+ */
+export function kernelAt(kernel: ResamplerKernel, t: number): number {
+  const x = Math.abs(t) * kernel.phases;
+  const index = Math.floor(x);
+  if (index >= kernel.table.length - 1) return 0;
+  const frac = x - index;
+  return kernel.table[index] + (kernel.table[index + 1] - kernel.table[index]) * frac;
+}
+
+/**
+ * 创建重采样状态，开头以静音补齐卷积核左侧
+ */
+export function createResampler(
+  inputRate: number,
+  outputRate: number,
+  options: Partial<ResamplerOptions> = {}
+): ResamplerState {
+  const kernel = createKernel(inputRate, outputRate, options);
+  const lead = Math.ceil(kernel.halfWidth);
+  return {
+    inputRate,
+    outputRate,
+    step: inputRate / outputRate,
+    kernel,
+    history: new Float32Array(lead),
+    position: lead,
+  };
+}
+
+/**
+ * 清空历史，复用卷积核（如停止播放后重新开始）
+ */
+export function resetResampler(state: ResamplerState): ResamplerState {
+  const lead = Math.ceil(state.kernel.halfWidth);
+  return { ...state, history: new Float32Array(lead), position: lead };
+}
+
+/**
+ * 从 position 起计算 buffer 前 length 个样本中右侧上下文足够的输出样本，逐个交给 emit，返回下一个输出样本的位置
+ * 不引用模块中的其他代码：AudioWorklet 采集处理器通过 toString 复用同一份实现
+ */
+/* istanbul ignore next -- 源码会注入 Worklet，不能插入覆盖率计数 */
+export function convolve(
+  kernel: ResamplerKernel,
+  step: number,
+  buffer: Float32Array,
+  length: number,
+  position: number,
+  emit: (value: number) => void
+): number {
+  const table = kernel.table;
+  const phases = kernel.phases;
+  const halfWidth = kernel.halfWidth;
+  const count = Math.max(0, Math.ceil((length - halfWidth - position) / step));
+  for (let n = 0; n < count; n++) {
+    const first = Math.max(0, Math.ceil(position - halfWidth));
+    const last = Math.min(length - 1, Math.floor(position + halfWidth));
+    let sum = 0;
+    for (let j = first; j <= last; j++) {
+      // 同 kernelAt
+      const x = Math.abs(position - j) * phases;
+      const index = Math.floor(x);
+      if (index < table.length - 1) {
+        sum += buffer[j] * (table[index] + (table[index + 1] - table[index]) * (x - index));
+      }
+    }
+    emit(sum);
+    position += step;
+  }
+  return position;
+}
+
+/**
+ * 处理一帧输入，输出能够完整计算的样本；右侧上下文不足的部分留到下一帧
+ */
+export function resample(state: ResamplerState, input: Float32Array): ResampleResult {
+  if (state.inputRate === state.outputRate) {
+    return { output: input.slice(), state };
+  }
+
+  const { kernel, step } = state;
+  const buffer = new Float32Array(state.history.length + input.length);
+  buffer.set(state.history);
+  buffer.set(input, state.history.length);
+
+  const count = Math.max(0, Math.ceil((buffer.length - kernel.halfWidth - state.position) / step));
+  const output = new Float32Array(count);
+  let n = 0;
+  const position = convolve(kernel, step, buffer, buffer.length, state.position, (value) => {
+    output[n++] = value;
+  });
+
+  // 保留下一个输出样本左侧仍需要的输入
+  const keepFrom = Math.min(buffer.length, Math.max(0, Math.floor(position - kernel.halfWidth)));
+  return {
+    output,
+    state: {
+      ...state,
+      history: buffer.slice(keepFrom),
+      position: position - keepFrom,
+    },
+  };
+}
+
+/**
+ * 以静音补齐右侧上下文，输出剩余样本（流结束时调用）
+ */
+export function flushResampler(state: ResamplerState): ResampleResult {
+  if (state.inputRate === state.outputRate) {
+    return { output: new Float32Array(0), state };
+  }
+  // 只输出对应真实输入的样本：history 中最后一个真实样本之后不再输出
+  const end = state.history.length;
+  const padded = resample(state, new Float32Array(Math.ceil(state.kernel.halfWidth) + 1));
+  // 减去一个极小量，避免 position 累加的浮点误差多输出一个样本
+  const count = Math.max(0, Math.ceil((end - state.position) / state.step - POSITION_EPSILON));
+  return {
+    output: padded.output.slice(0, count),
+    state: resetResampler(state),
+  };
+}
+
+/**
+ * 一次性重采样整段音频
+ */
+export function resampleAll(
+  input: Float32Array,
+  inputRate: number,
+  outputRate: number,
+  options: Partial<ResamplerOptions> = {}
+): Float32Array {
+  if (inputRate === outputRate) return input.slice();
+  const first = resample(createResampler(inputRate, outputRate, options), input);
+  const rest = flushResampler(first.state);
+  const output = new Float32Array(first.output.length + rest.output.length);
+  output.set(first.output);
+  output.set(rest.output, first.output.length);
+  return output;
+}
@@ -0,0 +1,140 @@
+import { EchoCorrelator, SpectralVoiceActivityDetector, computeSpectralFeatures } from './spectralVad';
+
+const SAMPLE_RATE = 24000;
+const FRAME_MS = 40;
+const FRAME_SAMPLES = 960;
+const REFERENCE_MS = 300;
+
+// 可复现的伪随机噪声（-amplitude ~ amplitude）
+function noise(length: number, seed: number, amplitude = 0.1): Float32Array {
+  let state = seed;
+  return Float32Array.from({ length }, () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return (state / 0xffffffff - 0.5) * 2 * amplitude;
+  });
+}
+
+// 类浊音：200Hz 基频及其到 3kHz 的等幅谐波
+function voiced(length: number, amplitude = 0.02): Float32Array {
+  return Float32Array.from({ length }, (_, i) => {
+    let sum = 0;
+    for (let f = 200; f <= 3000; f += 200) sum += Math.sin((2 * Math.PI * f * i) / SAMPLE_RATE);
+    return amplitude * sum;
+  });
+}
+
+// 逐个延迟求点积的参考实现（与 EchoCorrelator 相同的 3 倍平均降采样）
+function bruteForceCorrelation(samples: Float32Array, reference: Float32Array): number {
+  const decimate = (input: Float32Array) =>
+    Float32Array.from({ length: Math.floor(input.length / 3) }, (_, i) => (input[i * 3] + input[i * 3 + 1] + input[i * 3 + 2]) / 3);
+  const mic = decimate(samples);
+  const ref = decimate(reference);
+  const micEnergy = mic.reduce((sum, x) => sum + x * x, 0);
+  let best = 0;
+  for (let start = 0; start + mic.length <= ref.length; start++) {
+    let dot = 0;
+    let refEnergy = 0;
+    for (let i = 0; i < mic.length; i++) {
+      dot += mic[i] * ref[start + i];
+      refEnergy += ref[start + i] * ref[start + i];
+    }
+    if (refEnergy > 0) best = Math.max(best, Math.abs(dot) / Math.sqrt(micEnergy * refEnergy));
+  }
+  return Math.min(best, 1);
+}
+
+describe('EchoCorrelator', () => {
+  const referenceLength = FRAME_SAMPLES + (SAMPLE_RATE * REFERENCE_MS) / 1000;
+
+  it('帧是参考信号的延迟副本时接近 1，无关噪声时很低，与逐点计算一致', () => {
+    const correlator = new EchoCorrelator();
+    const reference = noise(referenceLength, 1);
+    const delay = 2400;  // 100ms
+    const echo = reference.slice(reference.length - FRAME_SAMPLES - delay, reference.length - delay).map((x) => x * 0.3);
+    const unrelated = noise(FRAME_SAMPLES, 2);
+
+    expect(correlator.measure(echo, reference)).toBeGreaterThan(0.99);
+    expect(correlator.measure(unrelated, reference)).toBeLessThan(0.3);
+    expect(correlator.measure(unrelated, reference)).toBeCloseTo(bruteForceCorrelation(unrelated, reference), 3);
+
+    const mixed = echo.map((x, i) => x + unrelated[i]);
+    expect(correlator.measure(mixed, reference)).toBeCloseTo(bruteForceCorrelation(mixed, reference), 3);
+  });
+
+  it('不同长度的帧和参考交替计算时复用缓冲，结果不受上一次影响', () => {
+    const correlator = new EchoCorrelator();
+    const longReference = noise(referenceLength * 2, 3);
+    const shortReference = noise(referenceLength, 4);
+    const frame = noise(FRAME_SAMPLES, 5);
+    const expected = bruteForceCorrelation(frame, shortReference);
+
+    correlator.measure(frame, longReference);
+    expect(correlator.measure(frame, shortReference)).toBeCloseTo(expected, 3);
+    expect(correlator.measure(frame.subarray(0, 480), shortReference)).toBeCloseTo(
+      bruteForceCorrelation(frame.subarray(0, 480), shortReference),
+      3
+    );
+  });
+
+  it('静音帧、参考短于帧或参考无声时为 0', () => {
+    const correlator = new EchoCorrelator();
+    expect(correlator.measure(new Float32Array(FRAME_SAMPLES), noise(referenceLength, 6))).toBe(0);
+    expect(correlator.measure(noise(FRAME_SAMPLES, 7), noise(FRAME_SAMPLES / 2, 8))).toBe(0);
+    expect(correlator.measure(noise(FRAME_SAMPLES, 9), new Float32Array(referenceLength))).toBe(0);
+  });
+});
+
+describe('computeSpectralFeatures', () => {
+  it('浊音集中在语音频段且频谱不平坦，白噪声平坦且过零率高', () => {
+    const voice = computeSpectralFeatures(voiced(FRAME_SAMPLES));
+    expect(voice.bandRatio).toBeGreaterThan(0.8);
+    expect(voice.flatness).toBeLessThan(0.3);
+    expect(voice.zeroCrossing).toBeLessThan(0.25);
+
+    const white = computeSpectralFeatures(noise(FRAME_SAMPLES, 10));
+    expect(white.bandRatio).toBeLessThan(0.5);
+    expect(white.flatness).toBeGreaterThan(0.6);
+    expect(white.zeroCrossing).toBeGreaterThan(0.4);
+  });
+});
+
+describe('SpectralVoiceActivityDetector', () => {
+  const config = { calibrationMs: 0, adaptive: false, minSpeechDuration: 120 };
+
+  function run(vad: SpectralVoiceActivityDetector, frames: Float32Array[], references?: Float32Array[]): jest.Mock {
+    const onSpeechStart = jest.fn();
+    vad.setCallbacks({ onSpeechStart });
+    frames.forEach((samples, i) => vad.process(samples, FRAME_MS, references?.[i] ?? null));
+    return onSpeechStart;
+  }
+
+  function split(signal: Float32Array, offset: number, count: number): Float32Array[] {
+    return Array.from({ length: count }, (_, i) => signal.slice(offset + i * FRAME_SAMPLES, offset + (i + 1) * FRAME_SAMPLES));
+  }
+
+  it('人声触发说话开始，同等音量的白噪声不触发', () => {
+    expect(run(new SpectralVoiceActivityDetector(config), split(voiced(FRAME_SAMPLES * 10), 0, 10))).toHaveBeenCalledTimes(1);
+    expect(run(new SpectralVoiceActivityDetector(config), split(noise(FRAME_SAMPLES * 10, 11), 0, 10))).not.toHaveBeenCalled();
+  });
+
+  it('麦克风录到的是正在播放的语音（回声）时不触发', () => {
+    const vad = new SpectralVoiceActivityDetector(config);
+    expect(vad.referenceMs).toBe(REFERENCE_MS);
+
+    // 播放内容延迟 100ms、衰减一半后被麦克风录到
+    const delay = 2400;
+    const history = (SAMPLE_RATE * REFERENCE_MS) / 1000;
+    const played = voiced(history + FRAME_SAMPLES * 10, 0.04);
+    const frames: Float32Array[] = [];
+    const references: Float32Array[] = [];
+    for (let i = 0; i < 10; i++) {
+      const end = history + (i + 1) * FRAME_SAMPLES;
+      frames.push(played.slice(end - FRAME_SAMPLES - delay, end - delay).map((x) => x * 0.5));
+      references.push(played.slice(end - FRAME_SAMPLES - history, end));
+    }
+
+    expect(run(vad, frames, references)).not.toHaveBeenCalled();
+    // 没有播放参考时同样的声音会被当作说话
+    expect(run(new SpectralVoiceActivityDetector(config), frames)).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * 频谱 VAD（带回声抑制）
+ * 在音量检测的基础上结合频谱特征（语音频段能量占比、频谱平坦度、过零率）区分人声与噪声，
+ * 并与正在播放的助手语音做互相关：能被播放内容解释的部分视为回声，不会触发说话开始
+ */
+
+import { VADConfig, VADEngineType, VADFrame, VoiceActivityDetector } from './vad';
+
+export interface SpectralVADOptions {
+  minBandRatio: number;     // 300-3400Hz 能量占总能量的最小比例
+  maxFlatness: number;      // 语音频段频谱平坦度上限（白噪声接近 1，浊音远低于此）
+  maxZeroCrossing: number;  // 过零率上限（每样本），过滤嘶声、敲击等宽带噪声
+  echoCorrelation: number;  // 与播放参考的归一化互相关超过该值时视为回声
+  echoMaxDelayMs: number;   // 播放到被麦克风录到的最大延迟（输出 + 输入延迟）
+}
+
+export const DEFAULT_SPECTRAL_VAD_OPTIONS: SpectralVADOptions = {
+  minBandRatio: 0.5,
+  maxFlatness: 0.6,
+  maxZeroCrossing: 0.25,
+  echoCorrelation: 0.8,
+  echoMaxDelayMs: 300,
+};
+
+// 输入为 24kHz，按 512 点（约 21ms）分段求平均功率谱
+const SAMPLE_RATE = 24000;
+const FFT_SIZE = 512;
+const SPEECH_BAND: [number, number] = [300, 3400];
+const LOW_CUTOFF = 80;  // 低于该频率的能量（直流、低频嗡声）不计入
+// 互相关在 8kHz 上计算，降低计算量
+const CORRELATION_DECIMATION = 3;
+const MIN_REFERENCE_POWER = 1e-8;  // 参考窗口平均功率低于该值（约 -80dBFS）视为无声
+
+/**
+ * 原地基 2 FFT（re / im 长度为 2 的幂）
+ */
+function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+const HANN = Float32Array.from({ length: FFT_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FFT_SIZE));
+
+// 功率谱的复用缓冲（同步计算，不会重入）
+const spectrumRe = new Float32Array(FFT_SIZE);
+const spectrumIm = new Float32Array(FFT_SIZE);
+const spectrumPower = new Float32Array(FFT_SIZE / 2);
+
+/**
+ * 平均功率谱（FFT_SIZE / 2 个频点），帧不足一段时补零
+ * 返回复用的缓冲，下次调用前有效
+ */
+function powerSpectrum(samples: Float32Array): Float32Array {
+  const re = spectrumRe;
+  const im = spectrumIm;
+  const power = spectrumPower;
+  power.fill(0);
+  const segments = Math.max(1, Math.floor(samples.length / FFT_SIZE));
+  for (let s = 0; s < segments; s++) {
+    const offset = s * FFT_SIZE;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      re[i] = (samples[offset + i] || 0) * HANN[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < power.length; k++) {
+      power[k] += (re[k] * re[k] + im[k] * im[k]) / segments;
+    }
+  }
+  return power;
+}
+
+export interface SpectralFeatures {
+  bandRatio: number;     // 语音频段能量占比
+  flatness: number;      // 语音频段频谱平坦度（几何平均 / 算术平均）
+  zeroCrossing: number;  // 过零率（每样本）
+}
+
+/**
+ * 计算单帧的频谱特征
+ */
+export function computeSpectralFeatures(samples: Float32Array): SpectralFeatures {
+  const power = powerSpectrum(samples);
+  const binHz = SAMPLE_RATE / FFT_SIZE;
+  const low = Math.ceil(SPEECH_BAND[0] / binHz);
+  const high = Math.floor(SPEECH_BAND[1] / binHz);
+
+  let total = 0;
+  for (let k = Math.ceil(LOW_CUTOFF / binHz); k < power.length; k++) total += power[k];
+
+  let band = 0;
+  let logSum = 0;
+  for (let k = low; k <= high; k++) {
+    band += power[k];
+    logSum += Math.log(power[k] + 1e-12);
+  }
+  const bins = high - low + 1;
+  const mean = band / bins;
+
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) crossings++;
+  }
+
+  return {
+    bandRatio: total > 0 ? band / total : 0,
+    flatness: mean > 0 ? Math.exp(logSum / bins) / mean : 1,
+    zeroCrossing: samples.length > 1 ? crossings / (samples.length - 1) : 0,
+  };
+}
+
+/**
+ * 按 factor 取平均降采样，写入 out 的前 length 个样本
+ */
+function decimateInto(samples: Float32Array, factor: number, out: Float32Array, length: number): void {
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    out[i] = sum / factor;
+  }
+}
+
+/**
+ * 回声互相关
+ * 在频域一次算出所有延迟下的点积（O(N log N)，而不是逐个延迟求点积），缓冲按需扩容后复用
+ */
+export class EchoCorrelator {
+  private size = 0;
+  private refRe = new Float32Array(0);
+  private refIm = new Float32Array(0);
+  private micRe = new Float32Array(0);
+  private micIm = new Float32Array(0);
+  private prefix = new Float64Array(1);
+
+  /**
+   * 帧与参考信号在各延迟下的最大归一化互相关（0-1）
+   * reference 末尾与帧末尾对齐，向前最多 reference.length - samples.length 个样本的延迟
+   */
+  measure(samples: Float32Array, reference: Float32Array): number {
+    const n = Math.floor(samples.length / CORRELATION_DECIMATION);
+    const m = Math.floor(reference.length / CORRELATION_DECIMATION);
+    if (n === 0 || m < n) return 0;
+
+    this.ensureSize(m);
+    const { size, refRe, refIm, micRe, micIm, prefix } = this;
+    refRe.fill(0);
+    refIm.fill(0);
+    micRe.fill(0);
+    micIm.fill(0);
+    decimateInto(reference, CORRELATION_DECIMATION, refRe, m);
+    decimateInto(samples, CORRELATION_DECIMATION, micRe, n);
+
+    let micEnergy = 0;
+    for (let i = 0; i < n; i++) micEnergy += micRe[i] * micRe[i];
+    if (micEnergy === 0) return 0;
+
+    // 参考信号各窗口能量用前缀和计算
+    for (let i = 0; i < m; i++) prefix[i + 1] = prefix[i] + refRe[i] * refRe[i];
+
+    // 互相关 = IFFT(R · conj(M))；size ≥ m，所需延迟不会发生循环回绕
+    // 逆变换用正变换实现：IFFT(X) = conj(FFT(conj(X))) / size，只取实部
+    fft(refRe, refIm);
+    fft(micRe, micIm);
+    for (let k = 0; k < size; k++) {
+      const re = refRe[k] * micRe[k] + refIm[k] * micIm[k];
+      const im = refIm[k] * micRe[k] - refRe[k] * micIm[k];
+      refRe[k] = re;
+      refIm[k] = -im;
+    }
+    fft(refRe, refIm);
+
+    // 几乎无声的参考窗口解释不了麦克风能量，跳过以免舍入误差放大成高相关
+    const minEnergy = n * MIN_REFERENCE_POWER;
+    let best = 0;
+    for (let start = 0; start + n <= m; start++) {
+      const refEnergy = prefix[start + n] - prefix[start];
+      if (refEnergy <= minEnergy) continue;
+      const correlation = Math.abs(refRe[start] / size) / Math.sqrt(micEnergy * refEnergy);
+      if (correlation > best) best = correlation;
+    }
+    return Math.min(best, 1);
+  }
+
+  private ensureSize(length: number): void {
+    if (length <= this.size) return;
+    let size = 1;
+    while (size < length) size <<= 1;
+    this.size = size;
+    this.refRe = new Float32Array(size);
+    this.refIm = new Float32Array(size);
+    this.micRe = new Float32Array(size);
+    this.micIm = new Float32Array(size);
+    this.prefix = new Float64Array(size + 1);
+  }
+}
+
+export class SpectralVoiceActivityDetector extends VoiceActivityDetector {
+  readonly type: VADEngineType = 'spectral';
+  readonly referenceMs: number;
+
+  private options: SpectralVADOptions;
+  private correlator = new EchoCorrelator();
+
+  constructor(config: Partial<VADConfig> = {}, options: Partial<SpectralVADOptions> = {}) {
+    super(config);
+    this.options = { ...DEFAULT_SPECTRAL_VAD_OPTIONS, ...options };
+    this.referenceMs = this.options.echoMaxDelayMs;
+  }
+
+  protected analyze(samples: Float32Array, rms: number, reference: Float32Array | null): VADFrame {
+    const { minBandRatio, maxFlatness, maxZeroCrossing, echoCorrelation: echoLimit } = this.options;
+
+    // 去除能被播放内容线性解释的能量，剩余部分才可能是用户的声音
+    let level = rms;
+    let isEcho = false;
+    if (reference) {
+      const correlation = this.correlator.measure(samples, reference);
+      level = rms * Math.sqrt(1 - correlation * correlation);
+      isEcho = correlation >= echoLimit;
+    }
+
+    const features = computeSpectralFeatures(samples);
+    const speechLike = !isEcho
+      && features.bandRatio >= minBandRatio
+      && features.flatness <= maxFlatness
+      && features.zeroCrossing <= maxZeroCrossing;
+
+    return { level, speechLike };
+  }
+}
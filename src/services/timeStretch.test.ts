@@ -0,0 +1,108 @@
+import { createTimeStretch, flushTimeStretch, setTimeStretchRate, timeStretch } from './timeStretch';
+
+const SAMPLE_RATE = 24000;
+const HOP = 360;  // 开头补的静音样本数（15ms）
+
+function sine(frequency: number, length: number, amplitude = 0.5): Float32Array {
+  return Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+}
+
+function concat(chunks: Float32Array[]): Float32Array {
+  const output = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  chunks.reduce((offset, chunk) => {
+    output.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return output;
+}
+
+// 按给定帧长循环切分输入，逐帧处理后 flush
+function stretchInChunks(input: Float32Array, rate: number, frameSizes: number[]): Float32Array {
+  let state = createTimeStretch(rate);
+  const chunks: Float32Array[] = [];
+  for (let offset = 0, i = 0; offset < input.length; i++) {
+    const size = frameSizes[i % frameSizes.length];
+    const result = timeStretch(state, input.subarray(offset, offset + size));
+    chunks.push(result.output);
+    state = result.state;
+    offset += size;
+  }
+  chunks.push(flushTimeStretch(state).output);
+  return concat(chunks);
+}
+
+function zeroCrossings(samples: Float32Array): number {
+  let count = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) count++;
+  }
+  return count;
+}
+
+function maxStep(samples: Float32Array): number {
+  let max = 0;
+  for (let i = 1; i < samples.length; i++) max = Math.max(max, Math.abs(samples[i] - samples[i - 1]));
+  return max;
+}
+
+describe('timeStretch', () => {
+  it.each([0.5, 0.75, 1, 1.25, 1.5, 2])('%sx 输出长度为输入长度 / 倍速（加开头的静音）', (rate) => {
+    const input = sine(220, SAMPLE_RATE);
+    const output = stretchInChunks(input, rate, [480]);
+    expect(output.length).toBe(Math.round(HOP + input.length / rate));
+  });
+
+  it('倍速超出范围时按 0.5-2 处理', () => {
+    expect(createTimeStretch(5).rate).toBe(2);
+    expect(createTimeStretch(0.1).rate).toBe(0.5);
+    expect(setTimeStretchRate(createTimeStretch(1), 0).rate).toBe(0.5);
+  });
+
+  it('1x 时原样输出（延后开头的静音）', () => {
+    const input = sine(220, 4800);
+    const output = stretchInChunks(input, 1, [480]);
+    expect(Array.from(output.subarray(0, HOP)).every((sample) => Math.abs(sample) < 1e-6)).toBe(true);
+    let maxError = 0;
+    for (let i = 0; i < input.length; i++) {
+      maxError = Math.max(maxError, Math.abs(output[HOP + i] - input[i]));
+    }
+    expect(maxError).toBeLessThan(1e-5);
+  });
+
+  it('变速不变调：正弦的过零次数与时长成正比', () => {
+    const input = sine(300, SAMPLE_RATE);
+    [0.5, 2].forEach((rate) => {
+      const output = stretchInChunks(input, rate, [480]);
+      const body = output.subarray(2 * HOP, output.length - 2 * HOP);
+      const frequency = zeroCrossings(body) / 2 / (body.length / SAMPLE_RATE);
+      expect(Math.abs(frequency - 300)).toBeLessThan(5);
+    });
+  });
+
+  it('分帧边界处连续：不规则帧长与整段处理结果一致，且没有跳变', () => {
+    const input = Float32Array.from(
+      { length: SAMPLE_RATE },
+      (_, i) => 0.3 * Math.sin((2 * Math.PI * 180 * i) / SAMPLE_RATE) + 0.2 * Math.sin((2 * Math.PI * 410 * i) / SAMPLE_RATE)
+    );
+    [0.75, 1.5].forEach((rate) => {
+      const whole = stretchInChunks(input, rate, [input.length]);
+      const streamed = stretchInChunks(input, rate, [128, 441, 37, 1024, 1, 300]);
+      expect(streamed.length).toBe(whole.length);
+      let maxError = 0;
+      for (let i = 0; i < whole.length; i++) {
+        maxError = Math.max(maxError, Math.abs(streamed[i] - whole[i]));
+      }
+      expect(maxError).toBeLessThan(1e-5);
+      // 相邻样本的变化不超过原信号最大斜率的两倍（不含结尾输入被截断、补静音的部分）
+      expect(maxStep(streamed.subarray(0, streamed.length - 2 * HOP))).toBeLessThan(2 * maxStep(input));
+    });
+  });
+
+  it('不修改传入的状态', () => {
+    const state = createTimeStretch(1.5);
+    const buffer = state.buffer.slice();
+    timeStretch(state, sine(220, 2400));
+    expect(state.buffer).toEqual(buffer);
+    expect(state.outputLength).toBe(0);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * 保持音高的变速（WSOLA，波形相似叠加）
+ * 按分析步长 = 合成步长 × 倍速从输入中取帧，每帧在小范围内寻找与上一帧自然延续最相似的位置再加窗叠加，
+ * 避免直接改变播放速率带来的音调变化
+ * 与 resampler.ts 相同，所有函数都是纯函数，状态跨调用保存，支持流式处理
+ */
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+
+// 24kHz 下：帧长 30ms，合成步长 15ms（50% 重叠），相似度搜索范围 ±5ms
+const FRAME_LENGTH = 720;
+const HOP = FRAME_LENGTH / 2;
+const SEARCH = 120;
+
+const WINDOW = Float32Array.from({ length: FRAME_LENGTH }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_LENGTH));
+
+export interface TimeStretchState {
+  rate: number;
+  buffer: Float32Array;        // 尚未用完的输入
+  position: number;            // 下一帧的名义起点（buffer 坐标）
+  tail: Float32Array | null;   // 上一帧的自然延续，下一帧按它对齐
+  overlap: Float32Array;       // 上一帧加窗后的后半部分，等待与下一帧叠加
+  expectedLength: number;      // 按倍速应输出的总样本数（含开头的 HOP 个静音样本）
+  outputLength: number;        // 已输出的样本数
+}
+
+export interface TimeStretchResult {
+  output: Float32Array;
+  state: TimeStretchState;
+}
+
+export function clampPlaybackRate(rate: number): number {
+  return Math.min(Math.max(rate, MIN_PLAYBACK_RATE), MAX_PLAYBACK_RATE);
+}
+
+/**
+ * 创建变速状态，开头补 HOP 个静音样本，使第一帧的渐入落在静音上
+ */
+export function createTimeStretch(rate: number): TimeStretchState {
+  return {
+    rate: clampPlaybackRate(rate),
+    buffer: new Float32Array(HOP),
+    position: 0,
+    tail: null,
+    overlap: new Float32Array(HOP),
+    expectedLength: HOP,
+    outputLength: 0,
+  };
+}
+
+/**
+ * 修改倍速，之后送入的输入按新倍速处理
+ */
+export function setTimeStretchRate(state: TimeStretchState, rate: number): TimeStretchState {
+  return { ...state, rate: clampPlaybackRate(rate) };
+}
+
+/**
+ * 在 [center - SEARCH, center + SEARCH] 内寻找与 tail 最相似的帧起点
+ */
+function findBestOffset(buffer: Float32Array, center: number, tail: Float32Array): number {
+  const from = Math.max(0, center - SEARCH);
+  const to = Math.min(buffer.length - FRAME_LENGTH, center + SEARCH);
+  let best = center;
+  let bestScore = -Infinity;
+  for (let start = from; start <= to; start++) {
+    let dot = 0;
+    let energy = 0;
+    for (let i = 0; i < HOP; i++) {
+      const value = buffer[start + i];
+      dot += value * tail[i];
+      energy += value * value;
+    }
+    const score = energy > 0 ? dot / Math.sqrt(energy) : 0;
+    if (score > bestScore) {
+      bestScore = score;
+      best = start;
+    }
+  }
+  return best;
+}
+
+/**
+ * 处理一段输入，输出能够完整叠加的样本；不足一帧的输入留到下一次
+ */
+export function timeStretch(state: TimeStretchState, input: Float32Array): TimeStretchResult {
+  const buffer = new Float32Array(state.buffer.length + input.length);
+  buffer.set(state.buffer);
+  buffer.set(input, state.buffer.length);
+
+  const analysisHop = HOP * state.rate;
+  const frames: Float32Array[] = [];
+  let { position, tail, overlap } = state;
+
+  while (Math.round(position) + SEARCH + FRAME_LENGTH <= buffer.length) {
+    const center = Math.round(position);
+    const start = tail ? findBestOffset(buffer, center, tail) : center;
+
+    const out = new Float32Array(HOP);
+    const nextOverlap = new Float32Array(HOP);
+    for (let i = 0; i < HOP; i++) {
+      out[i] = overlap[i] + buffer[start + i] * WINDOW[i];
+      nextOverlap[i] = buffer[start + HOP + i] * WINDOW[HOP + i];
+    }
+    frames.push(out);
+    overlap = nextOverlap;
+    tail = buffer.slice(start + HOP, start + FRAME_LENGTH);
+    position += analysisHop;
+  }
+
+  // 只保留下一帧搜索范围内仍需要的输入
+  const keepFrom = Math.max(0, Math.min(buffer.length, Math.floor(position) - SEARCH));
+  const output = new Float32Array(frames.length * HOP);
+  frames.forEach((frame, index) => output.set(frame, index * HOP));
+
+  return {
+    output,
+    state: {
+      ...state,
+      buffer: buffer.slice(keepFrom),
+      position: position - keepFrom,
+      tail,
+      overlap,
+      expectedLength: state.expectedLength + input.length / state.rate,
+      outputLength: state.outputLength + output.length,
+    },
+  };
+}
+
+/**
+ * 以静音补齐，输出剩余样本并重置状态（一段音频结束时调用）
+ */
+export function flushTimeStretch(state: TimeStretchState): TimeStretchResult {
+  const padded = timeStretch({ ...state, expectedLength: 0 }, new Float32Array(FRAME_LENGTH + 2 * SEARCH));
+  const remaining = Math.max(0, Math.round(state.expectedLength) - state.outputLength);
+  const output = new Float32Array(remaining);
+  output.set(padded.output.subarray(0, remaining));
+  if (padded.output.length < remaining) {
+    output.set(padded.state.overlap.subarray(0, remaining - padded.output.length), padded.output.length);
+  }
+  return { output, state: createTimeStretch(state.rate) };
+}
@@ -0,0 +1,58 @@
+import { ToolArgumentsError, ToolDefinition, ToolRegistry, validateToolArgs } from './toolRegistry';
+
+const weather: ToolDefinition<{ city: string; days?: number; unit?: 'c' | 'f' }> = {
+  name: 'get_weather',
+  description: '查询天气',
+  parameters: {
+    type: 'object',
+    properties: {
+      city: { type: 'string' },
+      days: { type: 'integer' },
+      unit: { type: 'string', enum: ['c', 'f'] },
+    },
+    required: ['city'],
+  },
+  handler: ({ city, days = 1 }) => ({ city, days }),
+};
+
+describe('validateToolArgs', () => {
+  it('校验必填字段、基本类型和枚举', () => {
+    expect(validateToolArgs(weather.parameters, { city: '上海', days: 3, unit: 'c' })).toEqual([]);
+    expect(validateToolArgs(weather.parameters, {})).toEqual(['缺少 city']);
+    expect(validateToolArgs(weather.parameters, { city: 1, days: 1.5, unit: 'k' })).toEqual([
+      'city 应为 string',
+      'days 应为 integer',
+      'unit 应为 "c" | "f" 之一',
+    ]);
+    expect(validateToolArgs(weather.parameters, [])).toEqual(['参数 应为 object']);
+  });
+
+  it('嵌套对象的字段路径', () => {
+    const schema = {
+      type: 'object',
+      properties: { range: { type: 'object', properties: { from: { type: 'string' } }, required: ['from'] } },
+    };
+    expect(validateToolArgs(schema, { range: {} })).toEqual(['缺少 range.from']);
+    expect(validateToolArgs(schema, { range: { from: null } })).toEqual(['range.from 应为 string']);
+  });
+});
+
+describe('ToolRegistry.execute', () => {
+  it('参数合法时调用处理函数并序列化结果', async () => {
+    const registry = new ToolRegistry();
+    registry.register(weather);
+    await expect(registry.execute('get_weather', '{"city":"上海"}')).resolves.toBe('{"city":"上海","days":1}');
+  });
+
+  it('参数不合法时不调用处理函数，抛出带 issues 的 ToolArgumentsError', async () => {
+    const registry = new ToolRegistry();
+    const handler = jest.fn();
+    registry.register({ ...weather, handler });
+
+    const error = await registry.execute('get_weather', '{"days":"2"}').catch((e) => e);
+    expect(error).toBeInstanceOf(ToolArgumentsError);
+    expect(error.issues).toEqual(['缺少 city', 'days 应为 integer']);
+    await expect(registry.execute('get_weather', '{city')).rejects.toBeInstanceOf(ToolArgumentsError);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * 工具注册表
+ * 管理可供模型调用的函数工具（名称、JSON Schema 参数、异步处理函数）
+ */
+
+import { FunctionTool, isRecord } from './realtimeEvents';
+
+export type ToolHandler<Args = unknown> = (args: Args) => unknown | Promise<unknown>;
+
+export interface ToolDefinition<Args = unknown> {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;  // JSON Schema
+  // 方法签名，声明了具体参数类型的工具也能放进 ToolDefinition[]；参数经 parameters 校验后传入
+  handler(args: Args): unknown | Promise<unknown>;
+}
+
+export type ToolCallStatus = 'running' | 'completed' | 'failed';
+
+// 一次工具调用的完整记录
+export interface ToolCall {
+  callId: string;
+  itemId: string;
+  responseId: string;
+  name: string;
+  arguments: string;
+  status: ToolCallStatus;
+  output?: string;
+  error?: string;
+}
+
+/**
+ * 模型生成的参数不符合工具声明的 parameters
+ */
+export class ToolArgumentsError extends Error {
+  readonly issues: string[];
+
+  constructor(name: string, issues: string[]) {
+    super(`工具 ${name} 的参数不合法: ${issues.join('；')}`);
+    this.name = 'ToolArgumentsError';
+    this.issues = issues;
+  }
+}
+
+const SCHEMA_TYPES: Record<string, (value: unknown) => boolean> = {
+  string: (value) => typeof value === 'string',
+  number: (value) => typeof value === 'number' && Number.isFinite(value),
+  integer: (value) => Number.isInteger(value),
+  boolean: (value) => typeof value === 'boolean',
+  array: Array.isArray,
+  object: isRecord,
+  null: (value) => value === null,
+};
+
+/**
+ * 按 JSON Schema 的常用子集校验参数：type、required、enum，对象逐个属性递归
+ * @param path 当前字段路径，用于错误信息
+ * @returns 不符合之处，空数组表示通过
+ */
+export function validateToolArgs(schema: Record<string, unknown>, value: unknown, path = ''): string[] {
+  const label = path || '参数';
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const known = types.filter((type): type is string => typeof type === 'string' && type in SCHEMA_TYPES);
+  if (known.length > 0 && !known.some((type) => SCHEMA_TYPES[type](value))) {
+    return [`${label} 应为 ${known.join(' | ')}`];
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    return [`${label} 应为 ${schema.enum.map((option) => JSON.stringify(option)).join(' | ')} 之一`];
+  }
+  if (!isRecord(value)) return [];
+
+  const fieldPath = (key: string) => (path ? `${path}.${key}` : key);
+  const issues: string[] = [];
+  if (Array.isArray(schema.required)) {
+    schema.required.forEach((key) => {
+      if (typeof key === 'string' && value[key] === undefined) {
+        issues.push(`缺少 ${fieldPath(key)}`);
+      }
+    });
+  }
+  if (isRecord(schema.properties)) {
+    Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+      if (value[key] === undefined || !isRecord(propertySchema)) return;
+      issues.push(...validateToolArgs(propertySchema, value[key], fieldPath(key)));
+    });
+  }
+  return issues;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  /**
+   * 注册工具，同名工具会被覆盖
+   * @returns 取消注册函数
+   */
+  register<Args>(tool: ToolDefinition<Args>): () => void {
+    this.tools.set(tool.name, tool);
+    return () => {
+      if (this.tools.get(tool.name) === tool) {
+        this.tools.delete(tool.name);
+      }
+    };
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  /**
+   * 转换为 session.update 中的 tools 声明
+   */
+  toSessionTools(): FunctionTool[] {
+    return Array.from(this.tools.values()).map((tool) => ({
+      type: 'function',
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    }));
+  }
+
+  /**
+   * 执行工具调用，参数先按工具声明的 parameters 校验
+   * @param name 工具名称
+   * @param argsJson 模型生成的 JSON 参数字符串
+   * @returns 序列化后的输出，作为 function_call_output 回传
+   * @throws ToolArgumentsError 参数不符合声明时，不调用处理函数
+   */
+  async execute(name: string, argsJson: string): Promise<string> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`未注册的工具: ${name}`);
+    }
+
+    let args: unknown;
+    try {
+      args = argsJson.trim() ? JSON.parse(argsJson) : {};
+    } catch (e) {
+      throw new ToolArgumentsError(name, [`不是合法 JSON: ${e instanceof Error ? e.message : String(e)}`]);
+    }
+
+    const issues = validateToolArgs(tool.parameters, args);
+    if (issues.length > 0) {
+      throw new ToolArgumentsError(name, issues);
+    }
+
+    const result = await tool.handler(args);
+    return typeof result === 'string' ? result : JSON.stringify(result ?? null);
+  }
+}
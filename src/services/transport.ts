@@ -0,0 +1,69 @@
+/**
+ * 传输层抽象
+ * RealtimeService 只依赖该接口收发文本帧，可替换为真实 WebSocket 或离线模拟后端
+ */
+
+export type TransportReadyState = 'connecting' | 'open' | 'closing' | 'closed';
+
+export interface TransportCloseEvent {
+  code: number;
+  reason: string;
+}
+
+export interface RealtimeTransport {
+  readonly readyState: TransportReadyState;
+  readonly bufferedAmount: number;  // 尚未发出的字节数（用于背压判断）
+
+  onopen: (() => void) | null;
+  onmessage: ((data: unknown) => void) | null;
+  onerror: ((error: unknown) => void) | null;
+  onclose: ((event: TransportCloseEvent) => void) | null;
+
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * 传输工厂：根据连接地址创建传输实例
+ */
+export type TransportFactory = (url: string) => RealtimeTransport;
+
+const READY_STATES: TransportReadyState[] = ['connecting', 'open', 'closing', 'closed'];
+
+/**
+ * 基于浏览器 WebSocket 的传输
+ */
+export class WebSocketTransport implements RealtimeTransport {
+  private ws: WebSocket;
+
+  onopen: (() => void) | null = null;
+  onmessage: ((data: unknown) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: ((event: TransportCloseEvent) => void) | null = null;
+
+  constructor(url: string) {
+    this.ws = new WebSocket(url);
+    this.ws.onopen = () => this.onopen?.();
+    this.ws.onmessage = (event) => this.onmessage?.(event.data);
+    this.ws.onerror = (error) => this.onerror?.(error);
+    this.ws.onclose = (event) => this.onclose?.({ code: event.code, reason: event.reason });
+  }
+
+  get readyState(): TransportReadyState {
+    return READY_STATES[this.ws.readyState];
+  }
+
+  get bufferedAmount(): number {
+    return this.ws.bufferedAmount;
+  }
+
+  send(data: string): void {
+    this.ws.send(data);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.ws.close(code, reason);
+  }
+}
+
+export const createWebSocketTransport: TransportFactory = (url) => new WebSocketTransport(url);
@@ -0,0 +1,77 @@
+/**
+ * 类型化事件发射器
+ * 支持多个订阅者独立监听同一事件，on / once 返回取消订阅函数
+ */
+
+import { createLogger } from './logger';
+
+const log = createLogger('realtime');
+
+export type Unsubscribe = () => void;
+
+// 事件表：事件名 → 处理函数参数
+export type EventMap<Events> = { [K in keyof Events]: unknown[] };
+
+export type EventHandler<Args extends unknown[]> = (...args: Args) => void;
+
+export class TypedEmitter<Events extends EventMap<Events>> {
+  private listeners: { [K in keyof Events]?: Set<EventHandler<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): Unsubscribe {
+    let handlers = this.listeners[event];
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners[event] = handlers;
+    }
+    handlers.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * 只触发一次，之后自动取消订阅
+   */
+  once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): Unsubscribe {
+    const unsubscribe = this.on(event, (...args: Events[K]) => {
+      unsubscribe();
+      handler(...args);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    const handlers = this.listeners[event];
+    if (!handlers) return;
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      delete this.listeners[event];
+    }
+  }
+
+  /**
+   * 依次调用订阅者，单个订阅者出错不影响其他订阅者
+   */
+  emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
+    const handlers = this.listeners[event];
+    if (!handlers) return;
+    // 复制一份，允许处理函数中增删订阅
+    Array.from(handlers).forEach((handler) => {
+      try {
+        handler(...args);
+      } catch (e) {
+        log.error(`❌ 事件 ${String(event)} 的处理函数出错:`, e);
+      }
+    });
+  }
+
+  hasListeners<K extends keyof Events>(event: K): boolean {
+    return (this.listeners[event]?.size || 0) > 0;
+  }
+
+  removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) {
+      this.listeners = {};
+    } else {
+      delete this.listeners[event];
+    }
+  }
+}
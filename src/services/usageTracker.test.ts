@@ -0,0 +1,142 @@
+import { DEFAULT_PRICE_TABLE, UsageTracker, parsePriceTable } from './usageTracker';
+import type { ResponseUsage } from './realtimeEvents';
+
+const PRICES = {
+  currency: '$',
+  inputTokensPerMillion: 2,
+  outputTokensPerMillion: 10,
+  asrPerMinute: 0.06,
+  audioPer10kCharacters: 5,
+};
+
+function usage(input: number, output: number, extra: Partial<ResponseUsage> = {}): ResponseUsage {
+  return { input_tokens: input, output_tokens: output, total_tokens: input + output, ...extra };
+}
+
+// 内存版 localStorage
+function createStorage(): Storage {
+  const data = new Map<string, string>();
+  return {
+    get length() {
+      return data.size;
+    },
+    clear: () => data.clear(),
+    getItem: (key) => data.get(key) ?? null,
+    key: (index) => Array.from(data.keys())[index] ?? null,
+    removeItem: (key) => {
+      data.delete(key);
+    },
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+describe('parsePriceTable', () => {
+  it('只保留非负有限数值的价格字段', () => {
+    expect(parsePriceTable(undefined)).toEqual({});
+    expect(parsePriceTable('{"currency":"$","inputTokensPerMillion":2,"asrPerMinute":0}')).toEqual({
+      currency: '$',
+      inputTokensPerMillion: 2,
+      asrPerMinute: 0,
+    });
+    expect(parsePriceTable('{"inputTokensPerMillion":"2","outputTokensPerMillion":-1,"asrPerMinute":null,"audioPer10kCharacters":3}')).toEqual({
+      audioPer10kCharacters: 3,
+    });
+  });
+
+  it('格式错误或不是对象时返回空对象', () => {
+    expect(parsePriceTable('{bad')).toEqual({});
+    expect(parsePriceTable('[1, 2]')).toEqual({});
+    expect(parsePriceTable('3')).toEqual({});
+  });
+
+  it('无效字段不会让费用变成 NaN', () => {
+    const tracker = new UsageTracker({ prices: parsePriceTable('{"outputTokensPerMillion":"8"}'), storage: null });
+    expect(tracker.estimateCost(usage(0, 1_000_000))).toBe(DEFAULT_PRICE_TABLE.outputTokensPerMillion);
+  });
+});
+
+describe('UsageTracker', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('按价格表估算 Token、语音识别和语音合成的费用', () => {
+    const tracker = new UsageTracker({ prices: PRICES, storage: null });
+    const cost = tracker.estimateCost(usage(500_000, 100_000, { total_asr_time: 30, total_audio_characters: 2000 }));
+    expect(cost).toBeCloseTo(0.5 * 2 + 0.1 * 10 + 0.5 * 0.06 + 0.2 * 5, 10);
+  });
+
+  it('会话和当天分别累计，新会话只清零会话用量', () => {
+    const tracker = new UsageTracker({ prices: PRICES, storage: null });
+    tracker.record('resp_1', usage(1_000_000, 0));
+    tracker.record('resp_2', usage(0, 100_000, { total_asr_time: 12 }));
+
+    let snapshot = tracker.getSnapshot();
+    expect(snapshot.conversation).toMatchObject({ responses: 2, inputTokens: 1_000_000, outputTokens: 100_000, asrSeconds: 12 });
+    expect(snapshot.conversation.cost).toBeCloseTo(2 + 1 + 0.012, 10);
+    expect(snapshot.lastResponse?.responseId).toBe('resp_2');
+
+    tracker.resetConversation();
+    snapshot = tracker.getSnapshot();
+    expect(snapshot.conversation.responses).toBe(0);
+    expect(snapshot.day.responses).toBe(2);
+    expect(snapshot.lastResponse).toBeNull();
+  });
+
+  it('跨天后清零当天用量，同一天重新创建时从存储恢复', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2026, 0, 1, 23, 59));
+    const storage = createStorage();
+    const tracker = new UsageTracker({ prices: PRICES, storage });
+    tracker.record('resp_1', usage(1_000_000, 0));
+
+    expect(new UsageTracker({ prices: PRICES, storage }).getSnapshot().day.cost).toBeCloseTo(2, 10);
+
+    jest.setSystemTime(new Date(2026, 0, 2, 0, 1));
+    tracker.record('resp_2', usage(0, 100_000));
+    const snapshot = tracker.getSnapshot();
+    expect(snapshot.date).toBe('2026-01-02');
+    expect(snapshot.day.responses).toBe(1);
+    expect(snapshot.day.cost).toBeCloseTo(1, 10);
+    expect(snapshot.conversation.responses).toBe(2);
+    expect(new UsageTracker({ prices: PRICES, storage }).getSnapshot().day.cost).toBeCloseTo(1, 10);
+  });
+
+  it('预算级别上升时各通知一次，超出硬上限后禁止开始新连接', () => {
+    const tracker = new UsageTracker({ prices: PRICES, budget: { softLimit: 1, hardLimit: 3 }, storage: null });
+    const onBudgetExceeded = jest.fn();
+    tracker.setCallbacks({ onBudgetExceeded });
+
+    tracker.record('resp_1', usage(250_000, 0));
+    expect(tracker.getBudgetLevel()).toBe('ok');
+    expect(onBudgetExceeded).not.toHaveBeenCalled();
+
+    tracker.record('resp_2', usage(250_000, 0));
+    tracker.record('resp_3', usage(250_000, 0));
+    expect(onBudgetExceeded.mock.calls.map(([level]) => level)).toEqual(['soft']);
+    expect(tracker.canStart()).toBe(true);
+
+    tracker.record('resp_4', usage(0, 200_000));
+    tracker.record('resp_5', usage(0, 100_000));
+    expect(onBudgetExceeded.mock.calls.map(([level]) => level)).toEqual(['soft', 'hard']);
+    expect(tracker.getBudgetLevel()).toBe('hard');
+    expect(tracker.canStart()).toBe(false);
+
+    // 调高预算后重新判断
+    tracker.setBudget({ hardLimit: 10 });
+    expect(tracker.canStart()).toBe(true);
+    expect(onBudgetExceeded.mock.calls.map(([level]) => level)).toEqual(['soft', 'hard', 'soft']);
+  });
+
+  it('按会话计算的预算在新会话开始时重置', () => {
+    const tracker = new UsageTracker({ prices: PRICES, budget: { scope: 'conversation', hardLimit: 1 }, storage: null });
+    tracker.record('resp_1', usage(500_000, 0));
+    expect(tracker.canStart()).toBe(false);
+
+    tracker.resetConversation();
+    expect(tracker.canStart()).toBe(true);
+    expect(tracker.getSnapshot().day.cost).toBeCloseTo(1, 10);
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * 用量与费用统计
+ * 按响应、会话、自然日汇总 response.done 中的用量，按价格表估算费用，并执行软/硬预算
+ */
+
+import { ResponseUsage, isRecord } from './realtimeEvents';
+import { createLogger } from './logger';
+
+const log = createLogger('realtime');
+
+// 价格表（费用单位由 currency 决定）
+export interface PriceTable {
+  currency: string;                // 货币符号
+  inputTokensPerMillion: number;   // 每百万输入 Token
+  outputTokensPerMillion: number;  // 每百万输出 Token
+  asrPerMinute: number;            // 每分钟语音识别
+  audioPer10kCharacters: number;   // 每万字符语音合成
+}
+
+// 示例价格，仅用于估算，请以 MiniMax 实际账单为准
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  currency: '¥',
+  inputTokensPerMillion: 1,
+  outputTokensPerMillion: 8,
+  asrPerMinute: 0.03,
+  audioPer10kCharacters: 3.5,
+};
+
+export interface UsageTotals {
+  responses: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  asrSeconds: number;       // 语音识别时长（秒）
+  audioCharacters: number;  // 语音合成字符数
+  cost: number;             // 估算费用
+}
+
+export interface ResponseUsageRecord {
+  responseId: string;
+  timestamp: number;
+  usage: ResponseUsage;
+  cost: number;
+}
+
+/**
+ * 预算
+ * - softLimit: 超出后提醒一次
+ * - hardLimit: 超出后断开连接，且在额度恢复前禁止重新连接
+ */
+export interface UsageBudget {
+  scope: 'conversation' | 'day';  // 预算按当前会话还是当天累计计算
+  softLimit?: number;
+  hardLimit?: number;
+}
+
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+export interface UsageSnapshot {
+  currency: string;
+  date: string;             // 当天日期 YYYY-MM-DD
+  conversation: UsageTotals;
+  day: UsageTotals;
+  lastResponse: ResponseUsageRecord | null;
+  budgetLevel: BudgetLevel;
+}
+
+export interface UsageTrackerCallbacks {
+  onUpdate?: (snapshot: UsageSnapshot) => void;
+  onBudgetExceeded?: (level: Exclude<BudgetLevel, 'ok'>, snapshot: UsageSnapshot) => void;
+}
+
+export interface UsageTrackerOptions {
+  prices: Partial<PriceTable>;
+  budget: Partial<UsageBudget>;
+  storage: Storage | null;  // 持久化当天用量，null 表示不持久化
+}
+
+const STORAGE_KEY = 'minimax-realtime-usage';
+const MAX_RESPONSE_RECORDS = 200;
+
+function createTotals(): UsageTotals {
+  return {
+    responses: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    asrSeconds: 0,
+    audioCharacters: 0,
+    cost: 0,
+  };
+}
+
+function getToday(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+// 价格表中的数值字段
+const PRICE_FIELDS = ['inputTokensPerMillion', 'outputTokensPerMillion', 'asrPerMinute', 'audioPer10kCharacters'] as const;
+
+/**
+ * 解析 JSON 格式的价格表（如环境变量 REACT_APP_USAGE_PRICES）
+ * 只保留非负有限数值的价格字段，无效字段使用默认价格（NaN 会让预算判断永远不成立）；格式错误时返回空对象
+ */
+export function parsePriceTable(json: string | undefined): Partial<PriceTable> {
+  if (!json) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    parsed = null;
+  }
+  if (!isRecord(parsed)) {
+    log.warn('⚠️ 价格表格式错误，使用默认价格');
+    return {};
+  }
+
+  const prices: Partial<PriceTable> = {};
+  if (typeof parsed.currency === 'string') {
+    prices.currency = parsed.currency;
+  }
+  const invalid: string[] = [];
+  for (const field of PRICE_FIELDS) {
+    const value = parsed[field];
+    if (value === undefined) continue;
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      prices[field] = value;
+    } else {
+      invalid.push(field);
+    }
+  }
+  if (invalid.length > 0) {
+    log.warn(`⚠️ 价格表字段无效，使用默认价格: ${invalid.join(', ')}`);
+  }
+  return prices;
+}
+
+export class UsageTracker {
+  private prices: PriceTable;
+  private budget: UsageBudget;
+  private storage: Storage | null;
+  private callbacks: UsageTrackerCallbacks = {};
+
+  private date = getToday();
+  private conversation = createTotals();
+  private day = createTotals();
+  private records: ResponseUsageRecord[] = [];
+  private notifiedLevel: BudgetLevel = 'ok';  // 已提醒过的预算级别，避免重复提醒
+
+  constructor(options?: Partial<UsageTrackerOptions>) {
+    this.prices = { ...DEFAULT_PRICE_TABLE, ...options?.prices };
+    this.budget = { scope: 'day', ...options?.budget };
+    this.storage = options?.storage !== undefined
+      ? options.storage
+      : (typeof window !== 'undefined' ? window.localStorage : null);
+    this.loadDay();
+    this.notifiedLevel = this.getBudgetLevel();
+  }
+
+  setCallbacks(callbacks: UsageTrackerCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  setPrices(prices: Partial<PriceTable>): void {
+    this.prices = { ...this.prices, ...prices };
+    this.emitUpdate();
+  }
+
+  /**
+   * 更新预算，重新判断是否需要提醒
+   */
+  setBudget(budget: Partial<UsageBudget>): void {
+    this.budget = { ...this.budget, ...budget };
+    this.notifiedLevel = 'ok';
+    this.checkBudget();
+    this.emitUpdate();
+  }
+
+  getBudget(): UsageBudget {
+    return { ...this.budget };
+  }
+
+  /**
+   * 记录一次响应的用量
+   * @returns 本次响应的估算费用
+   */
+  record(responseId: string, usage: ResponseUsage): number {
+    this.rollOverDay();
+
+    const cost = this.estimateCost(usage);
+    const record: ResponseUsageRecord = { responseId, timestamp: Date.now(), usage, cost };
+    this.records.push(record);
+    if (this.records.length > MAX_RESPONSE_RECORDS) {
+      this.records.shift();
+    }
+
+    this.addUsage(this.conversation, usage, cost);
+    this.addUsage(this.day, usage, cost);
+    this.saveDay();
+
+    log.info(`💰 响应用量: ${usage.total_tokens} tokens, 约 ${this.prices.currency}${cost.toFixed(4)}`);
+    this.checkBudget();
+    this.emitUpdate();
+    return cost;
+  }
+
+  /**
+   * 按价格表估算费用
+   */
+  estimateCost(usage: ResponseUsage): number {
+    const prices = this.prices;
+    return (
+      (usage.input_tokens / 1_000_000) * prices.inputTokensPerMillion +
+      (usage.output_tokens / 1_000_000) * prices.outputTokensPerMillion +
+      ((usage.total_asr_time || 0) / 60) * prices.asrPerMinute +
+      ((usage.total_audio_characters || 0) / 10_000) * prices.audioPer10kCharacters
+    );
+  }
+
+  /**
+   * 开始新会话时清零会话用量
+   */
+  resetConversation(): void {
+    this.conversation = createTotals();
+    this.records = [];
+    if (this.budget.scope === 'conversation') {
+      this.notifiedLevel = 'ok';
+    }
+    this.emitUpdate();
+  }
+
+  /**
+   * 当前预算级别
+   */
+  getBudgetLevel(): BudgetLevel {
+    const { softLimit, hardLimit } = this.budget;
+    const cost = this.getBudgetTotals().cost;
+    if (hardLimit !== undefined && hardLimit > 0 && cost >= hardLimit) return 'hard';
+    if (softLimit !== undefined && softLimit > 0 && cost >= softLimit) return 'soft';
+    return 'ok';
+  }
+
+  /**
+   * 是否允许开始新的连接（未超出硬预算）
+   */
+  canStart(): boolean {
+    this.rollOverDay();
+    return this.getBudgetLevel() !== 'hard';
+  }
+
+  getResponses(): ResponseUsageRecord[] {
+    return [...this.records];
+  }
+
+  getSnapshot(): UsageSnapshot {
+    return {
+      currency: this.prices.currency,
+      date: this.date,
+      conversation: { ...this.conversation },
+      day: { ...this.day },
+      lastResponse: this.records[this.records.length - 1] || null,
+      budgetLevel: this.getBudgetLevel(),
+    };
+  }
+
+  // ==================== 内部方法 ====================
+
+  private addUsage(totals: UsageTotals, usage: ResponseUsage, cost: number): void {
+    totals.responses++;
+    totals.inputTokens += usage.input_tokens;
+    totals.outputTokens += usage.output_tokens;
+    totals.totalTokens += usage.total_tokens;
+    totals.asrSeconds += usage.total_asr_time || 0;
+    totals.audioCharacters += usage.total_audio_characters || 0;
+    totals.cost += cost;
+  }
+
+  private getBudgetTotals(): UsageTotals {
+    return this.budget.scope === 'conversation' ? this.conversation : this.day;
+  }
+
+  /**
+   * 预算级别上升时通知一次
+   */
+  private checkBudget(): void {
+    const level = this.getBudgetLevel();
+    if (level === 'ok' || level === this.notifiedLevel || this.notifiedLevel === 'hard') return;
+
+    this.notifiedLevel = level;
+    log.warn(level === 'hard' ? '⛔ 已超出费用上限' : '⚠️ 已超出费用提醒额度');
+    this.callbacks.onBudgetExceeded?.(level, this.getSnapshot());
+  }
+
+  private emitUpdate(): void {
+    this.callbacks.onUpdate?.(this.getSnapshot());
+  }
+
+  /**
+   * 跨天时清零当天用量
+   */
+  private rollOverDay(): void {
+    const today = getToday();
+    if (today === this.date) return;
+
+    this.date = today;
+    this.day = createTotals();
+    if (this.budget.scope === 'day') {
+      this.notifiedLevel = 'ok';
+    }
+    this.saveDay();
+  }
+
+  private loadDay(): void {
+    if (!this.storage) return;
+    try {
+      const saved = JSON.parse(this.storage.getItem(STORAGE_KEY) || 'null');
+      if (saved?.date === this.date && saved.totals) {
+        this.day = { ...createTotals(), ...saved.totals };
+      }
+    } catch (error) {
+      log.warn('⚠️ 读取用量记录失败:', error);
+    }
+  }
+
+  private saveDay(): void {
+    if (!this.storage) return;
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify({ date: this.date, totals: this.day }));
+    } catch (error) {
+      log.warn('⚠️ 保存用量记录失败:', error);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { VADLevels, VoiceActivityDetector, computeRms, toDisplayVolume } from './vad';
+
+const FRAME_MS = 40;
+const FRAME_SAMPLES = 960;  // 24kHz 下 40ms
+
+// 指定 RMS 的方波帧
+function frame(rms: number): Float32Array {
+  return Float32Array.from({ length: FRAME_SAMPLES }, (_, i) => (i % 2 === 0 ? rms : -rms));
+}
+
+function feed(vad: VoiceActivityDetector, rms: number, durationMs: number): void {
+  for (let t = 0; t < durationMs; t += FRAME_MS) vad.process(frame(rms), FRAME_MS);
+}
+
+describe('computeRms / toDisplayVolume', () => {
+  it('RMS 与显示音量', () => {
+    expect(computeRms(frame(0.1))).toBeCloseTo(0.1, 6);
+    expect(computeRms(new Float32Array(0))).toBe(0);
+    expect(toDisplayVolume(0.05)).toBeCloseTo(0.5);
+    expect(toDisplayVolume(0.5)).toBe(1);
+  });
+});
+
+describe('VoiceActivityDetector（RMS）', () => {
+  it('持续超过 minSpeechDuration 才算开始说话，短促声音被忽略', () => {
+    const vad = new VoiceActivityDetector({ calibrationMs: 0, adaptive: false, minSpeechDuration: 150 });
+    const onSpeechStart = jest.fn();
+    vad.setCallbacks({ onSpeechStart });
+
+    feed(vad, 0.1, 80);
+    feed(vad, 0, 40);
+    expect(onSpeechStart).not.toHaveBeenCalled();
+
+    feed(vad, 0.1, 160);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+    expect(vad.getIsSpeaking()).toBe(true);
+  });
+
+  it('静音持续 silenceDuration 后结束说话，中途有声会重新计时', () => {
+    const vad = new VoiceActivityDetector({ calibrationMs: 0, adaptive: false, minSpeechDuration: 0, silenceDuration: 400 });
+    const onSpeechEnd = jest.fn();
+    vad.setCallbacks({ onSpeechEnd });
+
+    feed(vad, 0.1, 40);
+    feed(vad, 0.001, 320);
+    feed(vad, 0.1, 40);
+    feed(vad, 0.001, 360);
+    expect(onSpeechEnd).not.toHaveBeenCalled();
+
+    feed(vad, 0.001, 40);
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+    expect(vad.getIsSpeaking()).toBe(false);
+  });
+
+  it('校准取噪声中位数，自适应阈值随噪声底抬高', () => {
+    const vad = new VoiceActivityDetector({ calibrationMs: 400, speechRatio: 3 });
+    const levels: VADLevels[] = [];
+    const onSpeechStart = jest.fn();
+    vad.setCallbacks({ onLevelsChange: (value) => levels.push(value), onSpeechStart });
+
+    vad.calibrate();
+    expect(vad.getLevels().calibrating).toBe(true);
+    // 校准期间的偶发大声不影响中位数，也不会触发说话
+    [0.02, 0.02, 0.5, 0.02, 0.02, 0.02, 0.02, 0.02, 0.02, 0.02].forEach((rms) => vad.process(frame(rms), FRAME_MS));
+
+    expect(onSpeechStart).not.toHaveBeenCalled();
+    const calibrated = vad.getLevels();
+    expect(calibrated.calibrating).toBe(false);
+    expect(calibrated.noiseFloor).toBeCloseTo(0.02, 6);
+    expect(calibrated.speechThreshold).toBeCloseTo(0.06, 6);
+    expect(calibrated.silenceThreshold).toBeCloseTo(0.03, 6);
+    expect(levels[levels.length - 1]).toEqual(calibrated);
+
+    // 低于抬高后阈值的声音不算说话
+    feed(vad, 0.05, 400);
+    expect(onSpeechStart).not.toHaveBeenCalled();
+  });
+
+  it('关闭自适应时使用配置的阈值', () => {
+    const vad = new VoiceActivityDetector({ calibrationMs: 0, adaptive: false, speechThreshold: 0.02, silenceThreshold: 0.01 });
+    feed(vad, 0.05, 400);
+    expect(vad.getLevels()).toMatchObject({ speechThreshold: 0.02, silenceThreshold: 0.01 });
+  });
+});
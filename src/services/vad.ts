@@ -0,0 +1,273 @@
+/**
+ * 语音活动检测（VAD）
+ * 按帧计算 RMS 音量，启动时测量环境噪声，并随环境自适应调整噪声底和说话/静音阈值
+ * 检测引擎可替换：VoiceActivityDetector 只看音量，SpectralVoiceActivityDetector（spectralVad.ts）
+ * 额外结合频谱特征和播放参考信号
+ */
+
+import { createLogger } from './logger';
+
+const log = createLogger('vad');
+
+export interface VADConfig {
+  speechThreshold: number;    // 说话阈值（RMS），自适应时作为下限
+  silenceThreshold: number;   // 静音阈值（RMS），自适应时作为下限
+  silenceDuration: number;    // 静音持续多久判定说话结束（毫秒）
+  minSpeechDuration: number;  // 声音持续多久才算开始说话（毫秒），过滤点击、碰撞等短促噪声
+  adaptive: boolean;          // 是否根据噪声底自动抬高阈值
+  speechRatio: number;        // 自适应时说话阈值 = 噪声底 × speechRatio，静音阈值取其一半
+  calibrationMs: number;      // 开始采集时测量环境噪声的时长（毫秒），0 表示不校准
+}
+
+export const DEFAULT_VAD_CONFIG: VADConfig = {
+  speechThreshold: 0.02,
+  silenceThreshold: 0.01,
+  silenceDuration: 1500,
+  minSpeechDuration: 150,
+  adaptive: true,
+  speechRatio: 3,
+  calibrationMs: 1000,
+};
+
+// 当前阈值与噪声底（RMS）
+export interface VADLevels {
+  noiseFloor: number;
+  speechThreshold: number;
+  silenceThreshold: number;
+  calibrating: boolean;
+}
+
+export type VADEngineType = 'rms' | 'spectral';
+
+export const VAD_ENGINE_OPTIONS: { id: VADEngineType; name: string }[] = [
+  { id: 'rms', name: '音量（RMS）' },
+  { id: 'spectral', name: '频谱 + 回声抑制' },
+];
+
+// 单帧分析结果
+export interface VADFrame {
+  level: number;        // 与阈值比较的音量（RMS），回声抑制后为去除回声的残余音量
+  speechLike: boolean;  // 是否像人声（频谱特征、非回声）
+}
+
+export interface VADCallbacks {
+  onSpeechStart?: () => void;      // 用户开始说话
+  onSpeechEnd?: () => void;        // 用户停止说话（静音超时）
+  onVolumeChange?: (volume: number) => void;  // 音量变化（0-1）
+  onLevelsChange?: (levels: VADLevels) => void;  // 阈值或噪声底变化（校准完成、环境噪声变化）
+}
+
+// 噪声底跟踪：变安静时快速跟随，变吵时缓慢上升，避免把说话当成噪声
+const FLOOR_FALL_RATE = 0.1;
+const FLOOR_RISE_RATE = 0.005;
+// 阈值相对变化超过该比例才通知界面
+const LEVELS_CHANGE_RATIO = 0.05;
+
+/**
+ * VAD 引擎接口，AudioProcessor 按帧调用 process
+ */
+export interface VADEngine {
+  readonly type: VADEngineType;
+  readonly referenceMs: number;  // 需要帧之前多长的播放参考信号（毫秒），0 表示不需要
+  setCallbacks(callbacks: VADCallbacks): void;
+  setConfig(config: Partial<VADConfig>): void;
+  getConfig(): VADConfig;
+  calibrate(durationMs?: number): void;
+  /**
+   * @param reference 与该帧同一时间段（向前多取 referenceMs）正在播放的 24kHz 音频，未在播放时为 null
+   */
+  process(samples: Float32Array, frameMs: number, reference?: Float32Array | null): void;
+  reset(): void;
+  getIsSpeaking(): boolean;
+  getLevels(): VADLevels;
+}
+
+/**
+ * 帧的 RMS 音量
+ */
+export function computeRms(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+/**
+ * RMS 音量换算为 0-1 的显示音量（与 onVolumeChange 一致）
+ */
+export function toDisplayVolume(rms: number): number {
+  return Math.min(rms * 10, 1);
+}
+
+/**
+ * 音量检测：超过说话阈值即认为在说话
+ * 子类可覆盖 analyze 加入其他特征，说话开始/结束的判定和噪声底跟踪共用
+ */
+export class VoiceActivityDetector implements VADEngine {
+  readonly type: VADEngineType = 'rms';
+  readonly referenceMs: number = 0;
+
+  private config: VADConfig;
+  private callbacks: VADCallbacks = {};
+
+  private isSpeaking = false;
+  private speechMs = 0;        // 未确认说话前，连续有声的时长
+  private silenceMs = 0;       // 说话中连续静音的时长
+  private noiseFloor = 0;
+  private calibrationLeftMs = 0;
+  private calibrationSamples: number[] = [];
+  private lastLevels: VADLevels | null = null;
+
+  constructor(config: Partial<VADConfig> = {}) {
+    this.config = { ...DEFAULT_VAD_CONFIG, ...config };
+  }
+
+  setCallbacks(callbacks: VADCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  setConfig(config: Partial<VADConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.emitLevels(true);
+  }
+
+  getConfig(): VADConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 重新测量环境噪声，校准期间不检测说话
+   */
+  calibrate(durationMs = this.config.calibrationMs): void {
+    if (durationMs <= 0) return;
+    this.reset();
+    this.calibrationLeftMs = durationMs;
+    this.calibrationSamples = [];
+    log.info(`📏 开始测量环境噪声 (${durationMs}ms)`);
+    this.emitLevels(true);
+  }
+
+  /**
+   * 处理一帧音频
+   * @param samples 24kHz 浮点数据
+   * @param frameMs 该帧的时长（毫秒）
+   */
+  process(samples: Float32Array, frameMs: number, reference: Float32Array | null = null): void {
+    const rms = computeRms(samples);
+    this.callbacks.onVolumeChange?.(toDisplayVolume(rms));
+
+    const frame = this.analyze(samples, rms, reference);
+
+    if (this.calibrationLeftMs > 0) {
+      this.calibrationSamples.push(frame.level);
+      this.calibrationLeftMs -= frameMs;
+      if (this.calibrationLeftMs <= 0) {
+        this.finishCalibration();
+      }
+      return;
+    }
+
+    const { speechThreshold, silenceThreshold } = this.getLevels();
+    const isVoice = frame.level > speechThreshold && frame.speechLike;
+
+    if (!this.isSpeaking) {
+      if (isVoice) {
+        this.speechMs += frameMs;
+        if (this.speechMs >= this.config.minSpeechDuration) {
+          this.isSpeaking = true;
+          this.silenceMs = 0;
+          log.info('🗣️ 检测到说话开始');
+          this.callbacks.onSpeechStart?.();
+        }
+      } else {
+        this.speechMs = 0;
+        // 响亮的非人声（敲击等）不计入噪声底
+        if (frame.level <= speechThreshold) {
+          this.trackNoiseFloor(frame.level);
+        }
+      }
+      return;
+    }
+
+    if (isVoice) {
+      this.silenceMs = 0;
+    } else if (frame.level < silenceThreshold || !frame.speechLike) {
+      this.silenceMs += frameMs;
+      if (this.silenceMs >= this.config.silenceDuration) {
+        log.info('🤫 检测到说话结束（静音超时）');
+        this.isSpeaking = false;
+        this.speechMs = 0;
+        this.silenceMs = 0;
+        this.callbacks.onSpeechEnd?.();
+      }
+    }
+  }
+
+  /**
+   * 分析单帧，默认只使用音量
+   */
+  protected analyze(samples: Float32Array, rms: number, reference: Float32Array | null): VADFrame {
+    return { level: rms, speechLike: true };
+  }
+
+  /**
+   * 重置说话状态（保留噪声底）
+   */
+  reset(): void {
+    this.isSpeaking = false;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+  }
+
+  getIsSpeaking(): boolean {
+    return this.isSpeaking;
+  }
+
+  /**
+   * 当前生效的阈值：自适应时取配置值和噪声底倍数中较大的一个
+   */
+  getLevels(): VADLevels {
+    const { speechThreshold, silenceThreshold, adaptive, speechRatio } = this.config;
+    const floor = adaptive ? this.noiseFloor : 0;
+    return {
+      noiseFloor: this.noiseFloor,
+      speechThreshold: Math.max(speechThreshold, floor * speechRatio),
+      silenceThreshold: Math.max(silenceThreshold, (floor * speechRatio) / 2),
+      calibrating: this.calibrationLeftMs > 0,
+    };
+  }
+
+  private finishCalibration(): void {
+    // 取中位数，避免校准期间的偶发声音抬高噪声底
+    const sorted = [...this.calibrationSamples].sort((a, b) => a - b);
+    this.noiseFloor = sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+    this.calibrationLeftMs = 0;
+    this.calibrationSamples = [];
+    const levels = this.getLevels();
+    log.info('📏 环境噪声测量完成', {
+      noiseFloor: Number(this.noiseFloor.toFixed(4)),
+      speechThreshold: Number(levels.speechThreshold.toFixed(4)),
+    });
+    this.emitLevels(true);
+  }
+
+  private trackNoiseFloor(rms: number): void {
+    if (!this.config.adaptive) return;
+    const rate = rms < this.noiseFloor ? FLOOR_FALL_RATE : FLOOR_RISE_RATE;
+    this.noiseFloor += (rms - this.noiseFloor) * rate;
+    this.emitLevels(false);
+  }
+
+  private emitLevels(force: boolean): void {
+    const levels = this.getLevels();
+    const last = this.lastLevels;
+    const changed = !last
+      || last.calibrating !== levels.calibrating
+      || Math.abs(levels.speechThreshold - last.speechThreshold) > last.speechThreshold * LEVELS_CHANGE_RATIO
+      || Math.abs(levels.noiseFloor - last.noiseFloor) > Math.max(last.noiseFloor, 0.001) * LEVELS_CHANGE_RATIO;
+    if (!force && !changed) return;
+    this.lastLevels = levels;
+    this.callbacks.onLevelsChange?.(levels);
+  }
+}
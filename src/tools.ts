@@ -0,0 +1,31 @@
+/**
+ * 内置工具
+ * 连接时注册到 RealtimeService，供模型在对话中调用
+ */
+
+import type { ToolDefinition } from './services/toolRegistry';
+
+// 获取当前时间
+const getCurrentTime: ToolDefinition<{ timezone?: string }> = {
+  name: 'get_current_time',
+  description: '获取当前日期和时间，可指定 IANA 时区（如 Asia/Shanghai）',
+  parameters: {
+    type: 'object',
+    properties: {
+      timezone: {
+        type: 'string',
+        description: 'IANA 时区名称，默认使用用户本地时区',
+      },
+    },
+  },
+  handler: ({ timezone }) => {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      local: now.toLocaleString('zh-CN', timezone ? { timeZone: timezone } : undefined),
+      timezone: timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+};
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [getCurrentTime];
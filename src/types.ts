@@ -2,17 +2,23 @@
  * 类型定义
  */
 
+import type { Modality } from './services/realtimeEvents';
+import type { ToolCall } from './services/toolRegistry';
+
 // 聊天消息
 export interface Message {
   id: string;
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   timestamp: Date;
   isAudio?: boolean; // 是否通过语音输入
+  toolCall?: ToolCall; // 工具调用记录（role 为 tool 时）
+  itemId?: string; // 对应的服务端对话项 ID
+  truncated?: boolean; // 回复被打断，仅保留用户实际听到的部分
 }
 
 // 连接状态
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
 
 // 音色选项
 export interface VoiceOption {
@@ -29,6 +35,26 @@ export const VOICE_OPTIONS: VoiceOption[] = [
   { id: 'audiobook_male_2', name: '有声书男声' },
 ];
 
+// 回复模式
+// normal: 文字与语音同时输出；silent: 仅文字，不合成也不播放语音；audio_first: 播放完语音后再显示文字
+export type ResponseMode = 'normal' | 'silent' | 'audio_first';
+
+export interface ResponseModeOption {
+  id: ResponseMode;
+  name: string;
+  modalities: Modality[];
+}
+
+export const RESPONSE_MODE_OPTIONS: ResponseModeOption[] = [
+  { id: 'normal', name: '文字 + 语音', modalities: ['text', 'audio'] },
+  { id: 'silent', name: '静音（仅文字）', modalities: ['text'] },
+  { id: 'audio_first', name: '语音优先', modalities: ['text', 'audio'] },
+];
+
+export function getResponseModalities(mode: ResponseMode): Modality[] {
+  return RESPONSE_MODE_OPTIONS.find((option) => option.id === mode)?.modalities || ['text', 'audio'];
+}
+
 // 应用状态
 export interface AppState {
   isConnected: boolean;